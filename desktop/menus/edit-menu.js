@@ -75,6 +75,15 @@ const buildEditMenu = (settings, isAuthenticated, editMode) => {
         click: editorCommandSender({ action: 'findAgain' }),
         accelerator: 'CommandOrControl+G',
       },
+      {
+        label: 'Find and &Replace…',
+        visible: isAuthenticated,
+        click: appCommandSender({
+          action: 'showDialog',
+          dialog: 'FIND-REPLACE',
+        }),
+        accelerator: 'CommandOrControl+Shift+H',
+      },
       ...(isAuthenticated ? [{ type: 'separator' }] : []),
       {
         label: 'C&heck Spelling',
@@ -12,6 +12,43 @@ const buildFileMenu = (isAuthenticated) => {
       accelerator: 'CommandOrControl+Shift+I',
       click: appCommandSender({ action: 'newNote' }),
     },
+    {
+      label: 'New from &Template…',
+      visible: isAuthenticated,
+      accelerator: 'CommandOrControl+Shift+O',
+      click: appCommandSender({
+        action: 'showDialog',
+        dialog: 'TEMPLATES',
+      }),
+    },
+    ...(isAuthenticated ? [{ type: 'separator' }] : []),
+    {
+      label: 'Open T&oday’s Note',
+      visible: isAuthenticated,
+      accelerator: 'CommandOrControl+Shift+D',
+      click: appCommandSender({ action: 'openDailyNote' }),
+    },
+    {
+      label: 'Previous Daily Note',
+      visible: isAuthenticated,
+      accelerator: 'CommandOrControl+Alt+Left',
+      // handled in the app, which leaves these keys to the editor when it has focus
+      registerAccelerator: false,
+      click: appCommandSender({
+        action: 'openAdjacentDailyNote',
+        direction: 'previous',
+      }),
+    },
+    {
+      label: 'Next Daily Note',
+      visible: isAuthenticated,
+      accelerator: 'CommandOrControl+Alt+Right',
+      registerAccelerator: false,
+      click: appCommandSender({
+        action: 'openAdjacentDailyNote',
+        direction: 'next',
+      }),
+    },
     ...(isAuthenticated ? [{ type: 'separator' }] : []),
     {
       label: '&Import Notes…',
@@ -10,6 +10,22 @@ const buildFormatMenu = (isAuthenticated, editMode) => {
       click: editorCommandSender({ action: 'insertChecklist' }),
       enabled: editMode,
     },
+    { type: 'separator' },
+    {
+      label: 'Check &All Items',
+      click: editorCommandSender({ action: 'checkAllItems' }),
+      enabled: editMode,
+    },
+    {
+      label: '&Uncheck All Items',
+      click: editorCommandSender({ action: 'uncheckAllItems' }),
+      enabled: editMode,
+    },
+    {
+      label: '&Move Checked Items to Bottom',
+      click: editorCommandSender({ action: 'moveCheckedItemsDown' }),
+      enabled: editMode,
+    },
   ];
 
   const formatMenu = {
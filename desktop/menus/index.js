@@ -12,6 +12,7 @@ function createMenuTemplate(args, mainWindow) {
   const settings = args['settings'] || {};
   const isAuthenticated = settings && 'accountName' in settings;
   const editMode = args['editMode'] || false;
+  const isSearching = args['isSearching'] || false;
   const windowMenu = {
     role: 'window',
     submenu: [
@@ -26,7 +27,7 @@ function createMenuTemplate(args, mainWindow) {
     platform.isOSX() ? buildMacAppMenu(isAuthenticated) : null,
     buildFileMenu(isAuthenticated),
     buildEditMenu(settings, isAuthenticated, editMode),
-    buildViewMenu(settings, isAuthenticated),
+    buildViewMenu(settings, isAuthenticated, isSearching),
     buildFormatMenu(isAuthenticated, editMode),
     platform.isOSX() ? windowMenu : null,
     buildHelpMenu(mainWindow, isAuthenticated),
@@ -1,9 +1,10 @@
 const { buildRadioGroup, appCommandSender } = require('./utils');
 const platform = require('../detect/platform');
 
-const buildViewMenu = (settings, isAuthenticated) => {
+const buildViewMenu = (settings, isAuthenticated, isSearching) => {
   settings = settings || {};
   isAuthenticated = isAuthenticated || false;
+  isSearching = isSearching || false;
 
   const menu = {
     label: '&View',
@@ -24,6 +25,11 @@ const buildViewMenu = (settings, isAuthenticated) => {
             label: '&Alphabetical',
             id: 'alphabetical',
           },
+          {
+            label: '&Relevance',
+            id: 'relevance',
+            enabled: isSearching,
+          },
         ]
           .map(
             buildRadioGroup({
@@ -25,6 +25,10 @@ const NotePreview = React.lazy(() =>
   import(/* webpackChunkName: 'note-preview' */ '../components/note-preview')
 );
 
+const TasksView = React.lazy(() =>
+  import(/* webpackChunkName: 'tasks-view' */ '../tasks-view')
+);
+
 type StateProps = {
   hasRevisions: boolean;
   isFocusMode: boolean;
@@ -38,6 +42,7 @@ type StateProps = {
   openedRevision: number | null;
   showNoteList: boolean;
   showRevisions: boolean;
+  showTasks: boolean;
 };
 
 type DispatchProps = {
@@ -92,6 +97,7 @@ export class AppLayout extends Component<Props> {
       openedNote,
       openedRevision,
       showRevisions,
+      showTasks,
     } = this.props;
 
     const mainClasses = classNames('app-layout', {
@@ -114,20 +120,26 @@ export class AppLayout extends Component<Props> {
     return (
       <div className={mainClasses}>
         <Suspense fallback={placeholder}>
-          <div className="app-layout__source-column theme-color-bg theme-color-fg">
-            <SearchBar />
-            <NoteList />
-          </div>
-          {editorVisible && (
-            <div className="app-layout__note-column theme-color-bg theme-color-fg theme-color-border">
-              {hasRevisions && <RevisionSelector />}
-              <NoteToolbar />
-              {showRevisions ? (
-                <NotePreview noteId={openedNote} note={openedRevision} />
-              ) : (
-                <NoteEditor />
+          {showTasks ? (
+            <TasksView />
+          ) : (
+            <>
+              <div className="app-layout__source-column theme-color-bg theme-color-fg">
+                <SearchBar />
+                <NoteList />
+              </div>
+              {editorVisible && (
+                <div className="app-layout__note-column theme-color-bg theme-color-fg theme-color-border">
+                  {hasRevisions && <RevisionSelector />}
+                  <NoteToolbar />
+                  {showRevisions ? (
+                    <NotePreview noteId={openedNote} note={openedRevision} />
+                  ) : (
+                    <NoteEditor />
+                  )}
+                </div>
               )}
-            </div>
+            </>
           )}
         </Suspense>
       </div>
@@ -154,6 +166,7 @@ const mapStateToProps: S.MapState<StateProps> = (state) => ({
   openedNote: state.ui.openedNote,
   showNoteList: state.ui.showNoteList,
   showRevisions: state.ui.showRevisions,
+  showTasks: state.ui.showTasks,
 });
 
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
@@ -43,6 +43,10 @@ type DispatchProps = {
   closeNote: () => any;
   createNote: () => any;
   focusSearchField: () => any;
+  openAdjacentDailyNote: (direction: 'previous' | 'next') => any;
+  openDailyNote: () => any;
+  openFindReplace: () => any;
+  openTemplates: () => any;
   setLineLength: (length: T.LineLength) => any;
   setNoteDisplay: (displayMode: T.ListDisplayMode) => any;
   setSortType: (sortType: T.SortType) => any;
@@ -77,7 +81,7 @@ class AppComponent extends Component<Props> {
     if (!hotkeysEnabled) {
       return;
     }
-    const { ctrlKey, metaKey, shiftKey } = event;
+    const { altKey, ctrlKey, metaKey, shiftKey } = event;
     const key = event.key.toLowerCase();
 
     // Is either cmd or ctrl pressed? (But not both)
@@ -103,6 +107,14 @@ class AppComponent extends Component<Props> {
       return false;
     }
 
+    if (cmdOrCtrl && shiftKey && 'h' === key) {
+      this.props.openFindReplace();
+
+      event.stopPropagation();
+      event.preventDefault();
+      return false;
+    }
+
     if (('Escape' === key || 'Esc' === key) && this.props.isSearchActive) {
       this.props.clearSearch();
     }
@@ -123,6 +135,42 @@ class AppComponent extends Component<Props> {
       return false;
     }
 
+    if (cmdOrCtrl && shiftKey && 'd' === key) {
+      this.props.openDailyNote();
+
+      event.stopPropagation();
+      event.preventDefault();
+      return false;
+    }
+
+    // the editor moves by word parts with the same keys
+    const inEditor =
+      event.target instanceof Element &&
+      null !== event.target.closest('.monaco-editor');
+
+    if (
+      cmdOrCtrl &&
+      altKey &&
+      !inEditor &&
+      ('arrowleft' === key || 'arrowright' === key)
+    ) {
+      this.props.openAdjacentDailyNote(
+        'arrowleft' === key ? 'previous' : 'next'
+      );
+
+      event.stopPropagation();
+      event.preventDefault();
+      return false;
+    }
+
+    if (cmdOrCtrl && shiftKey && 'o' === key) {
+      this.props.openTemplates();
+
+      event.stopPropagation();
+      event.preventDefault();
+      return false;
+    }
+
     // prevent default browser behavior for search and find
     if (cmdOrCtrl && ('g' === key || 'f' === key)) {
       event.stopPropagation();
@@ -194,6 +242,11 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps> = (dispatch) => {
     closeNote: () => dispatch(closeNote()),
     createNote: () => dispatch(createNote()),
     focusSearchField: () => dispatch(actions.ui.focusSearchField()),
+    openAdjacentDailyNote: (direction) =>
+      dispatch(actions.ui.openAdjacentDailyNote(direction)),
+    openDailyNote: () => dispatch(actions.ui.openDailyNote()),
+    openFindReplace: () => dispatch(actions.ui.showDialog('FIND-REPLACE')),
+    openTemplates: () => dispatch(actions.ui.showDialog('TEMPLATES')),
     setLineLength: (length) => dispatch(settingsActions.setLineLength(length)),
     setNoteDisplay: (displayMode) =>
       dispatch(settingsActions.setNoteDisplay(displayMode)),
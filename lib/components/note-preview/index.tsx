@@ -1,7 +1,15 @@
-import React, { FunctionComponent, useEffect, useRef } from 'react';
+import React, { FunctionComponent, useEffect, useMemo, useRef } from 'react';
 import { connect } from 'react-redux';
 
 import renderToNode from '../../note-detail/render-to-node';
+import {
+  markdownHeadings,
+  renderedHeadingLines,
+} from '../../utils/markdown-headings';
+import {
+  withEmbeddedNotes,
+  withMarkdownNoteLinks,
+} from '../../utils/note-links';
 import { viewExternalUrl } from '../../utils/url-utils';
 import { withCheckboxCharacters } from '../../utils/task-transform';
 
@@ -17,9 +25,12 @@ type OwnProps = {
 
 type StateProps = {
   fontSize: number;
+  headingTarget: { noteId: T.EntityId; line: number } | null;
   isFocused: boolean;
+  isOpenedNote: boolean;
   note: T.Note | null;
   noteId: T.EntityId | null;
+  notes: Map<T.EntityId, T.Note>;
   searchQuery: string;
   showRenderedView: boolean;
 };
@@ -27,6 +38,7 @@ type StateProps = {
 type DispatchProps = {
   editNote: (noteId: T.EntityId, changes: Partial<T.Note>) => any;
   openNote: (noteId: T.EntityId) => any;
+  setCurrentHeading: (noteId: T.EntityId, line: number | null) => any;
 };
 
 type Props = OwnProps & StateProps & DispatchProps;
@@ -34,14 +46,31 @@ type Props = OwnProps & StateProps & DispatchProps;
 export const NotePreview: FunctionComponent<Props> = ({
   editNote,
   fontSize,
+  headingTarget,
   isFocused,
+  isOpenedNote,
   note,
   noteId,
+  notes,
   openNote,
   searchQuery,
+  setCurrentHeading,
   showRenderedView,
 }) => {
   const previewNode = useRef<HTMLDivElement>();
+  const scrollNode = useRef<HTMLDivElement>(null);
+  const lastHeadingTarget = useRef(headingTarget);
+  const currentHeadingLine = useRef<number | null>();
+  // embedded notes follow their changes, remote or local,
+  // and get sanitized along with the rest of the note
+  const linkedContent = useMemo(
+    () =>
+      withMarkdownNoteLinks(
+        withEmbeddedNotes(note?.content ?? '', notes, noteId),
+        notes
+      ),
+    [note?.content, noteId, notes]
+  );
 
   useEffect(() => {
     const copyRenderedNote = (event: ClipboardEvent) => {
@@ -55,7 +84,7 @@ export const NotePreview: FunctionComponent<Props> = ({
       }
 
       const div = document.createElement('div');
-      renderToNode(div, note.content, searchQuery).then(() => {
+      renderToNode(div, linkedContent, searchQuery).then(() => {
         try {
           // this works in Chrome and Safari but not Firefox
           event.clipboardData.setData('text/plain', div.innerHTML);
@@ -70,7 +99,7 @@ export const NotePreview: FunctionComponent<Props> = ({
 
     document.addEventListener('copy', copyRenderedNote, false);
     return () => document.removeEventListener('copy', copyRenderedNote, false);
-  }, [isFocused, searchQuery]);
+  }, [isFocused, linkedContent, searchQuery]);
 
   useEffect(() => {
     const handleClick = (event: MouseEvent) => {
@@ -135,17 +164,80 @@ export const NotePreview: FunctionComponent<Props> = ({
     }
 
     if (note?.content && showRenderedView) {
-      renderToNode(previewNode.current, note!.content, searchQuery);
+      renderToNode(previewNode.current, linkedContent, searchQuery).then(
+        updateCurrentHeading
+      );
     } else {
       previewNode.current.innerText = withCheckboxCharacters(
         note?.content ?? ''
       );
+      updateCurrentHeading();
+    }
+  }, [linkedContent, note?.content, searchQuery, showRenderedView]);
+
+  // pairs each rendered heading element with its line in the note
+  const renderedHeadings = (): [HTMLElement, number | null][] => {
+    const elements: HTMLElement[] = Array.from(
+      previewNode.current?.querySelectorAll('h1, h2, h3, h4, h5, h6') ?? []
+    );
+    const lines = renderedHeadingLines(
+      markdownHeadings(note?.content ?? ''),
+      elements.map((element) => ({
+        level: Number(element.tagName.slice(1)),
+        text: element.textContent ?? '',
+      }))
+    );
+
+    return elements.map((element, index) => [element, lines[index]]);
+  };
+
+  useEffect(() => {
+    if (headingTarget === lastHeadingTarget.current) {
+      return;
+    }
+    lastHeadingTarget.current = headingTarget;
+
+    if (!isOpenedNote || headingTarget?.noteId !== noteId) {
+      return;
     }
-  }, [note?.content, searchQuery, showRenderedView]);
+
+    renderedHeadings()
+      .find(([, line]) => line === headingTarget.line)?.[0]
+      .scrollIntoView({ block: 'start' });
+  }, [headingTarget]);
+
+  // the current heading is the last one scrolled to or past the top
+  const updateCurrentHeading = () => {
+    if (!isOpenedNote || !scrollNode.current) {
+      return;
+    }
+
+    const top = scrollNode.current.getBoundingClientRect().top + 1;
+    const line = renderedHeadings().reduce<number | null>(
+      (current, [element, headingLine]) =>
+        null !== headingLine && element.getBoundingClientRect().top <= top
+          ? headingLine
+          : current,
+      null
+    );
+
+    if (line !== currentHeadingLine.current) {
+      currentHeadingLine.current = line;
+      setCurrentHeading(noteId, line);
+    }
+  };
+
+  useEffect(() => {
+    const container = scrollNode.current;
+    currentHeadingLine.current = undefined;
+
+    container?.addEventListener('scroll', updateCurrentHeading);
+    return () => container?.removeEventListener('scroll', updateCurrentHeading);
+  }, [isOpenedNote, linkedContent, noteId, showRenderedView]);
 
   return (
     <div className="note-detail-wrapper">
-      <div className="note-detail note-detail-preview">
+      <div ref={scrollNode} className="note-detail note-detail-preview">
         <div
           ref={previewNode}
           className="note-detail-markdown theme-color-bg theme-color-fg"
@@ -167,9 +259,12 @@ const mapStateToProps: S.MapState<StateProps, OwnProps> = (state, props) => {
 
   return {
     fontSize: state.settings.fontSize,
+    headingTarget: state.ui.headingTarget,
     isFocused: state.ui.dialogs.length === 0 && !state.ui.showNoteInfo,
+    isOpenedNote: !props.note && noteId === state.ui.openedNote,
     note,
     noteId,
+    notes: state.data.notes,
     searchQuery: state.ui.searchQuery,
     showRenderedView:
       !!note?.systemTags.includes('markdown') && !state.ui.editMode,
@@ -179,6 +274,7 @@ const mapStateToProps: S.MapState<StateProps, OwnProps> = (state, props) => {
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   editNote: actions.data.editNote,
   openNote: actions.ui.selectNote,
+  setCurrentHeading: actions.ui.setCurrentHeading,
 };
 
 export default connect(mapStateToProps, mapDispatchToProps)(NotePreview);
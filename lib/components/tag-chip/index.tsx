@@ -1,13 +1,19 @@
 import React, { FunctionComponent } from 'react';
 import classNames from 'classnames';
 
+import TagMarker from '../tag-marker';
+
+import type * as T from '../../types';
+
 type OwnProps = {
+  metadata?: T.TagMetadata;
   onSelect?: (event: React.MouseEvent<HTMLDivElement>) => any;
   selected: boolean;
   tagName: string;
 };
 
 const TagChip: FunctionComponent<OwnProps> = ({
+  metadata,
   onSelect,
   selected,
   tagName,
@@ -17,6 +23,7 @@ const TagChip: FunctionComponent<OwnProps> = ({
     data-tag-name={tagName}
     onClick={onSelect}
   >
+    <TagMarker metadata={metadata} />
     {tagName}
   </div>
 );
@@ -0,0 +1,31 @@
+import React, { FunctionComponent } from 'react';
+
+import type * as T from '../../types';
+
+export const tagColors: T.TagColor[] = [
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+  'pink',
+];
+
+type OwnProps = {
+  metadata?: T.TagMetadata;
+};
+
+const TagMarker: FunctionComponent<OwnProps> = ({ metadata }) =>
+  metadata ? (
+    <span className="tag-marker" aria-hidden="true">
+      {metadata.color && (
+        <span className={`tag-marker__dot tag-color-${metadata.color}`} />
+      )}
+      {metadata.icon && (
+        <span className="tag-marker__icon">{metadata.icon}</span>
+      )}
+    </span>
+  ) : null;
+
+export default TagMarker;
@@ -4,11 +4,15 @@ import Modal from 'react-modal';
 
 import AboutDialog from '../dialogs/about';
 import BetaWarning from '../dialogs/beta-warning';
+import FindReplaceDialog from '../dialogs/find-replace';
 import ImportDialog from '../dialogs/import';
 import KeybindingsDialog from '../dialogs/keybindings';
 import LogoutConfirmation from '../dialogs/logout-confirmation';
+import RemindersDialog from '../dialogs/reminders';
 import SettingsDialog from '../dialogs/settings';
 import ShareDialog from '../dialogs/share';
+import TagsDialog from '../dialogs/tags';
+import TemplatesDialog from '../dialogs/templates';
 import { closeDialog } from '../state/ui/actions';
 
 import * as S from '../state';
@@ -52,16 +56,24 @@ export class DialogRenderer extends Component<Props> {
               <AboutDialog key="about" closeDialog={closeDialog} />
             ) : 'BETA-WARNING' === dialog ? (
               <BetaWarning key="beta-warning" />
+            ) : 'FIND-REPLACE' === dialog ? (
+              <FindReplaceDialog key="find-replace" />
             ) : 'IMPORT' === dialog ? (
               <ImportDialog key="import" />
             ) : 'KEYBINDINGS' === dialog ? (
               <KeybindingsDialog key="keybindings" />
             ) : 'LOGOUT-CONFIRMATION' === dialog ? (
               <LogoutConfirmation key="logout-confirmation" />
+            ) : 'REMINDERS' === dialog ? (
+              <RemindersDialog key="reminders" />
             ) : 'SETTINGS' === dialog ? (
               <SettingsDialog key="settings" />
             ) : 'SHARE' === dialog ? (
               <ShareDialog key="share" />
+            ) : 'TAGS' === dialog ? (
+              <TagsDialog key="tags" />
+            ) : 'TEMPLATES' === dialog ? (
+              <TemplatesDialog key="templates" />
             ) : null}
           </Modal>
         ))}
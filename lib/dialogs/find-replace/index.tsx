@@ -0,0 +1,280 @@
+import React, { ChangeEvent, Component, ReactNode } from 'react';
+import { connect } from 'react-redux';
+
+import CheckboxControl from '../../controls/checkbox';
+import Dialog from '../../dialog';
+import actions from '../../state/actions';
+import {
+  applyLineChanges,
+  candidateQuery,
+  findPattern,
+  replaceLines,
+  replacementFor,
+} from '../../utils/find-replace';
+import { noteTitleAndPreview } from '../../utils/note-utils';
+
+import type * as S from '../../state';
+import type * as T from '../../types';
+import type { FindOptions, LineChange } from '../../utils/find-replace';
+
+// long lists of changed lines are hard to review anyway
+const maxLinesPerNote = 5;
+
+type StateProps = {
+  foundNotes: T.EntityId[];
+  lastReplacement: T.NoteReplacement[] | null;
+  notes: Map<T.EntityId, T.Note>;
+};
+
+type DispatchProps = {
+  closeDialog: () => any;
+  findNotes: (searchQuery: string) => any;
+  replaceInNotes: (replacements: T.NoteReplacement[]) => any;
+  undoReplaceInNotes: () => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = FindOptions & {
+  excluded: Set<T.EntityId>;
+  find: string;
+  replace: string;
+};
+
+const highlight = (line: string, pattern: RegExp): ReactNode[] => {
+  const output: ReactNode[] = [];
+  let at = 0;
+
+  for (const match of line.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    output.push(line.slice(at, start));
+    output.push(<mark key={start}>{match[0]}</mark>);
+    at = start + match[0].length;
+  }
+  output.push(line.slice(at));
+
+  return output;
+};
+
+export class FindReplaceDialog extends Component<Props, OwnState> {
+  static displayName = 'FindReplaceDialog';
+
+  state: OwnState = {
+    excluded: new Set(),
+    find: '',
+    isCaseSensitive: false,
+    isRegExp: false,
+    replace: '',
+  };
+
+  componentDidUpdate(prevProps: Props, prevState: OwnState) {
+    const { find, isCaseSensitive, isRegExp } = this.state;
+
+    if (
+      find !== prevState.find ||
+      isCaseSensitive !== prevState.isCaseSensitive ||
+      isRegExp !== prevState.isRegExp
+    ) {
+      if (find.length > 0) {
+        this.props.findNotes(candidateQuery(find, this.state));
+      }
+    }
+  }
+
+  /**
+   * Works out what replacing would change in each candidate note
+   *
+   * @returns changed lines for every note which has any
+   */
+  getChanges = (): [T.EntityId, LineChange[]][] => {
+    const { foundNotes, notes } = this.props;
+    const { find, replace } = this.state;
+    const pattern = findPattern(find, this.state);
+
+    if (!pattern) {
+      return [];
+    }
+
+    const replacement = replacementFor(replace, this.state);
+    const changes: [T.EntityId, LineChange[]][] = [];
+    foundNotes.forEach((noteId) => {
+      const note = notes.get(noteId);
+      const lineChanges = note
+        ? replaceLines(note.content, pattern, replacement)
+        : [];
+
+      if (lineChanges.length > 0) {
+        changes.push([noteId, lineChanges]);
+      }
+    });
+
+    return changes;
+  };
+
+  onReplace = () => {
+    const { notes, replaceInNotes } = this.props;
+    const { excluded } = this.state;
+
+    replaceInNotes(
+      this.getChanges()
+        .filter(([noteId]) => !excluded.has(noteId))
+        .map(([noteId, lineChanges]) => {
+          const before = notes.get(noteId)!.content;
+
+          return {
+            noteId,
+            before,
+            after: applyLineChanges(before, lineChanges),
+          };
+        })
+    );
+  };
+
+  toggleNote = (noteId: T.EntityId) =>
+    this.setState(({ excluded }) => {
+      const next = new Set(excluded);
+      if (!next.delete(noteId)) {
+        next.add(noteId);
+      }
+      return { excluded: next };
+    });
+
+  updateText = ({ target: { name, value } }: ChangeEvent<HTMLInputElement>) =>
+    this.setState({ [name]: value } as Pick<OwnState, 'find' | 'replace'>);
+
+  render() {
+    const {
+      closeDialog,
+      lastReplacement,
+      notes,
+      undoReplaceInNotes,
+    } = this.props;
+    const { excluded, find, isCaseSensitive, isRegExp, replace } = this.state;
+
+    const pattern = findPattern(find, this.state);
+    const changes = this.getChanges();
+    const chosen = changes.filter(([noteId]) => !excluded.has(noteId));
+
+    return (
+      <div className="find-replace">
+        <Dialog onDone={closeDialog} title="Find and Replace">
+          <section className="find-replace__fields">
+            <input
+              aria-label="Find"
+              autoFocus
+              className="find-replace__input theme-color-bg theme-color-fg theme-color-border"
+              name="find"
+              onChange={this.updateText}
+              placeholder="Find"
+              spellCheck={false}
+              value={find}
+            />
+            <input
+              aria-label="Replace with"
+              className="find-replace__input theme-color-bg theme-color-fg theme-color-border"
+              name="replace"
+              onChange={this.updateText}
+              placeholder="Replace with"
+              spellCheck={false}
+              value={replace}
+            />
+            <label className="find-replace__option">
+              <CheckboxControl
+                checked={isCaseSensitive}
+                onChange={() =>
+                  this.setState({ isCaseSensitive: !isCaseSensitive })
+                }
+              />
+              Match case
+            </label>
+            <label className="find-replace__option">
+              <CheckboxControl
+                checked={isRegExp}
+                onChange={() => this.setState({ isRegExp: !isRegExp })}
+              />
+              Regular expression
+            </label>
+          </section>
+
+          <p className="find-replace__summary theme-color-fg-dim">
+            {find.length > 0 && !pattern
+              ? 'Invalid search'
+              : find.length > 0
+              ? `Found in ${changes.length} ${
+                  1 === changes.length ? 'note' : 'notes'
+                }`
+              : 'Find text in every note outside of the trash'}
+          </p>
+
+          {pattern && changes.length > 0 && (
+            <ul className="find-replace__notes theme-color-border">
+              {changes.map(([noteId, lineChanges]) => (
+                <li key={noteId} className="find-replace__note">
+                  <label className="find-replace__note-title">
+                    <CheckboxControl
+                      checked={!excluded.has(noteId)}
+                      onChange={() => this.toggleNote(noteId)}
+                    />
+                    {noteTitleAndPreview(notes.get(noteId)!).title}
+                  </label>
+                  {lineChanges
+                    .slice(0, maxLinesPerNote)
+                    .map(({ line, before, after }) => (
+                      <div key={line} className="find-replace__change">
+                        <del>{highlight(before, pattern)}</del>
+                        <ins>{after}</ins>
+                      </div>
+                    ))}
+                  {lineChanges.length > maxLinesPerNote && (
+                    <div className="find-replace__more theme-color-fg-dim">
+                      {`and ${lineChanges.length - maxLinesPerNote} more lines`}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <section className="find-replace__actions">
+            {lastReplacement && (
+              <button
+                className="button button-borderless"
+                onClick={undoReplaceInNotes}
+                type="button"
+              >
+                {`Undo replacing in ${lastReplacement.length} ${
+                  1 === lastReplacement.length ? 'note' : 'notes'
+                }`}
+              </button>
+            )}
+            <button
+              className="button button-primary"
+              disabled={chosen.length === 0}
+              onClick={this.onReplace}
+              type="button"
+            >
+              {`Replace in ${chosen.length} ${
+                1 === chosen.length ? 'note' : 'notes'
+              }`}
+            </button>
+          </section>
+        </Dialog>
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  foundNotes: state.ui.foundNotes,
+  lastReplacement: state.ui.lastReplacement,
+  notes: state.data.notes,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  closeDialog: actions.ui.closeDialog,
+  findNotes: actions.ui.findNotes,
+  replaceInNotes: actions.data.replaceInNotes,
+  undoReplaceInNotes: actions.data.undoReplaceInNotes,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(FindReplaceDialog);
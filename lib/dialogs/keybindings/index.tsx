@@ -62,6 +62,11 @@ export class AboutDialog extends Component<DispatchProps> {
                     Focus search field
                   </Keys>
                 </li>
+                <li>
+                  <Keys keys={[CmdOrCtrl, 'Shift', 'H']}>
+                    Find and replace in all notes
+                  </Keys>
+                </li>
                 <li>
                   <Keys keys={[CmdOrCtrl, 'G']}>
                     Jump to next match in note
@@ -105,6 +110,21 @@ export class AboutDialog extends Component<DispatchProps> {
                     </Keys>
                   </li>
                 )}
+                <li>
+                  <Keys keys={[CmdOrCtrl, 'Shift', 'D']}>
+                    Open today’s note
+                  </Keys>
+                </li>
+                <li>
+                  <Keys keys={[CmdOrCtrl, isMac ? 'Option' : 'Alt', '←']}>
+                    Open previous daily note
+                  </Keys>
+                </li>
+                <li>
+                  <Keys keys={[CmdOrCtrl, isMac ? 'Option' : 'Alt', '→']}>
+                    Open next daily note
+                  </Keys>
+                </li>
                 <li>
                   <Keys keys={[CmdOrCtrl, 'Shift', 'U']}>Toggle tag list</Keys>
                 </li>
@@ -137,6 +157,11 @@ export class AboutDialog extends Component<DispatchProps> {
                 <li>
                   <Keys keys={[CmdOrCtrl, 'Shift', 'I']}>Create new note</Keys>
                 </li>
+                <li>
+                  <Keys keys={[CmdOrCtrl, 'Shift', 'O']}>
+                    Create new note from a template
+                  </Keys>
+                </li>
                 {isElectron && (
                   <li>
                     <Keys keys={[CmdOrCtrl, 'P']}>Print note</Keys>
@@ -152,6 +177,12 @@ export class AboutDialog extends Component<DispatchProps> {
                     Insert checklist item
                   </Keys>
                 </li>
+                <li>
+                  <Keys keys={['Tab']}>Nest checklist item</Keys>
+                </li>
+                <li>
+                  <Keys keys={['Shift', 'Tab']}>Un-nest checklist item</Keys>
+                </li>
               </ul>
             </section>
           </div>
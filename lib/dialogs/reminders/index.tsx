@@ -0,0 +1,117 @@
+import React, { Component } from 'react';
+import { connect } from 'react-redux';
+import addMinutes from 'date-fns/addMinutes';
+import format from 'date-fns/format';
+
+import Dialog from '../../dialog';
+import actions from '../../state/actions';
+import { noteTitleAndPreview } from '../../utils/note-utils';
+
+import type * as S from '../../state';
+import type * as T from '../../types';
+
+const snoozeMinutes = 60;
+
+type StateProps = {
+  notes: Map<T.EntityId, T.Note>;
+  reminders: T.Task[];
+};
+
+type DispatchProps = {
+  closeDialog: () => any;
+  completeReminder: (noteId: T.EntityId, line: number) => any;
+  openNote: (noteId: T.EntityId) => any;
+  snoozeReminder: (noteId: T.EntityId, line: number, until: Date) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+export class RemindersDialog extends Component<Props> {
+  static displayName = 'RemindersDialog';
+
+  openNote = (noteId: T.EntityId) => {
+    const { closeDialog, openNote } = this.props;
+
+    closeDialog();
+    openNote(noteId);
+  };
+
+  render() {
+    const {
+      closeDialog,
+      completeReminder,
+      notes,
+      reminders,
+      snoozeReminder,
+    } = this.props;
+
+    return (
+      <div className="reminders-dialog">
+        <Dialog onDone={closeDialog} title="Reminders">
+          <ul className="reminders-dialog__reminders">
+            {reminders.map(({ due, line, noteId, text }) => {
+              const note = notes.get(noteId);
+
+              return (
+                <li
+                  key={`${noteId}:${line}`}
+                  className="reminders-dialog__reminder theme-color-border"
+                >
+                  <div className="reminders-dialog__details">
+                    <span className="reminders-dialog__text">
+                      {text || '(no description)'}
+                    </span>
+                    <span className="reminders-dialog__note theme-color-fg-dim">
+                      {due && `Due ${format(due, 'MMM d, h:mm a')} in `}
+                      <button
+                        className="button button-borderless theme-color-fg-dim"
+                        onClick={() => this.openNote(noteId)}
+                        type="button"
+                      >
+                        {note ? noteTitleAndPreview(note).title : 'a note'}
+                      </button>
+                    </span>
+                  </div>
+                  <button
+                    className="button button-compact"
+                    onClick={() =>
+                      snoozeReminder(
+                        noteId,
+                        line,
+                        addMinutes(new Date(), snoozeMinutes)
+                      )
+                    }
+                    type="button"
+                  >
+                    Snooze 1 hour
+                  </button>
+                  <button
+                    className="button button-primary button-compact"
+                    onClick={() => completeReminder(noteId, line)}
+                    type="button"
+                  >
+                    Complete
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </Dialog>
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  notes: state.data.notes,
+  reminders: state.ui.reminders,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  closeDialog: actions.ui.closeDialog,
+  completeReminder: actions.ui.completeReminder,
+  openNote: actions.ui.openNote,
+  snoozeReminder: actions.ui.snoozeReminder,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(RemindersDialog);
@@ -6,11 +6,12 @@ import TabPanels from '../../components/tab-panels';
 
 import AccountPanel from './panels/account';
 import DisplayPanel from './panels/display';
+import RulesPanel from './panels/rules';
 import ToolsPanel from './panels/tools';
 
 import { closeDialog } from '../../state/ui/actions';
 
-const settingTabs = ['account', 'display', 'tools'];
+const settingTabs = ['account', 'display', 'rules', 'tools'];
 
 type DispatchProps = {
   closeDialog: () => any;
@@ -23,6 +24,7 @@ export const SettingsDialog: FunctionComponent<Props> = ({ closeDialog }) => (
     <TabPanels tabNames={settingTabs}>
       <AccountPanel />
       <DisplayPanel />
+      <RulesPanel />
       <ToolsPanel />
     </TabPanels>
   </Dialog>
@@ -0,0 +1,218 @@
+import React, { ChangeEvent, Component, FormEvent, Fragment } from 'react';
+import { connect } from 'react-redux';
+
+import PanelTitle from '../../../components/panel-title';
+import SmallCrossIcon from '../../../icons/cross-small';
+import actions from '../../../state/actions';
+import { findPattern } from '../../../utils/find-replace';
+
+import * as S from '../../../state';
+import * as T from '../../../types';
+
+type StateProps = {
+  tagRules: T.TagRule[];
+};
+
+type DispatchProps = {
+  runTagRules: () => any;
+  setTagRules: (tagRules: T.TagRule[]) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = T.TagRule & {
+  hasRun: boolean;
+};
+
+const conditionLabels: { [condition in T.TagRule['condition']]: string } = {
+  contains: 'contains',
+  matches: 'matches the pattern',
+};
+
+const actionLabels: { [action in T.TagRule['action']]: string } = {
+  'add-tag': 'add the tag',
+  'remove-tag': 'remove the tag',
+  pin: 'pin the note',
+};
+
+const describeRule = ({ action, condition, tagName, text }: T.TagRule) =>
+  `When a note ${conditionLabels[condition]} “${text}”, ${
+    actionLabels[action]
+  }${'pin' === action ? '' : ` “${tagName}”`}`;
+
+export class RulesPanel extends Component<Props, OwnState> {
+  static displayName = 'RulesPanel';
+
+  state: OwnState = {
+    action: 'add-tag',
+    condition: 'contains',
+    hasRun: false,
+    tagName: '' as T.TagName,
+    text: '',
+  };
+
+  addRule = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const { setTagRules, tagRules } = this.props;
+    const { action, condition, tagName, text } = this.state;
+
+    setTagRules([
+      ...tagRules,
+      { action, condition, tagName: tagName.trim() as T.TagName, text },
+    ]);
+    this.setState({ tagName: '' as T.TagName, text: '' });
+  };
+
+  removeRule = (ruleAt: number) =>
+    this.props.setTagRules(
+      this.props.tagRules.filter((rule, index) => index !== ruleAt)
+    );
+
+  runRules = () => {
+    this.props.runTagRules();
+    this.setState({ hasRun: true });
+  };
+
+  updateCondition = ({ target: { value } }: ChangeEvent<HTMLSelectElement>) =>
+    this.setState({
+      condition: value as T.TagRule['condition'],
+      hasRun: false,
+    });
+
+  updateText = ({ target: { value } }: ChangeEvent<HTMLInputElement>) =>
+    this.setState({ text: value, hasRun: false });
+
+  updateAction = ({ target: { value } }: ChangeEvent<HTMLSelectElement>) =>
+    this.setState({ action: value as T.TagRule['action'], hasRun: false });
+
+  updateTagName = ({ target: { value } }: ChangeEvent<HTMLInputElement>) =>
+    this.setState({ tagName: value as T.TagName, hasRun: false });
+
+  render() {
+    const { tagRules } = this.props;
+    const { action, condition, hasRun, tagName, text } = this.state;
+
+    const isValid =
+      null !==
+        findPattern(text, {
+          isCaseSensitive: false,
+          isRegExp: 'matches' === condition,
+        }) &&
+      ('pin' === action || tagName.trim().length > 0);
+
+    return (
+      <Fragment>
+        <div className="settings-group">
+          <PanelTitle headingLevel={3}>Auto-tagging rules</PanelTitle>
+          {tagRules.length > 0 ? (
+            <ul className="settings-rules theme-color-border">
+              {tagRules.map((rule, index) => (
+                <li key={index} className="settings-rule theme-color-border">
+                  <span className="settings-rule-description">
+                    {describeRule(rule)}
+                  </span>
+                  <button
+                    aria-label="Remove rule"
+                    className="button button-borderless"
+                    onClick={() => this.removeRule(index)}
+                    type="button"
+                  >
+                    <SmallCrossIcon />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>
+              Rules tag or pin notes automatically when they are created,
+              imported, or edited.
+            </p>
+          )}
+        </div>
+
+        <form
+          className="settings-group settings-rule-form"
+          onSubmit={this.addRule}
+        >
+          <PanelTitle headingLevel={3}>New rule</PanelTitle>
+          <div className="settings-rule-fields">
+            When a note
+            <select
+              className="theme-color-bg theme-color-fg theme-color-border"
+              name="condition"
+              onChange={this.updateCondition}
+              value={condition}
+            >
+              <option value="contains">contains</option>
+              <option value="matches">matches the pattern</option>
+            </select>
+            <input
+              aria-label={'matches' === condition ? 'Pattern' : 'Text'}
+              className="theme-color-bg theme-color-fg theme-color-border"
+              name="text"
+              onChange={this.updateText}
+              placeholder={'matches' === condition ? 'TODO:\\s' : '#invoice'}
+              spellCheck={false}
+              value={text}
+            />
+            <select
+              className="theme-color-bg theme-color-fg theme-color-border"
+              name="action"
+              onChange={this.updateAction}
+              value={action}
+            >
+              <option value="add-tag">add the tag</option>
+              <option value="remove-tag">remove the tag</option>
+              <option value="pin">pin the note</option>
+            </select>
+            {'pin' !== action && (
+              <input
+                aria-label="Tag"
+                className="theme-color-bg theme-color-fg theme-color-border"
+                name="tagName"
+                onChange={this.updateTagName}
+                placeholder="invoices"
+                spellCheck={false}
+                value={tagName}
+              />
+            )}
+          </div>
+          <button
+            className="button button-primary"
+            disabled={!isValid}
+            type="submit"
+          >
+            Add Rule
+          </button>
+        </form>
+
+        {tagRules.length > 0 && (
+          <div className="settings-group">
+            <button
+              className="button button-borderless"
+              onClick={this.runRules}
+              type="button"
+            >
+              Run rules on all notes now
+            </button>
+            {hasRun && <p>Rules were applied to all notes.</p>}
+          </div>
+        )}
+      </Fragment>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = ({
+  settings: { tagRules },
+}) => ({
+  tagRules,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  runTagRules: actions.data.runTagRules,
+  setTagRules: actions.settings.setTagRules,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(RulesPanel);
@@ -7,10 +7,13 @@ import ButtonGroup from '../../button-group';
 import SettingsGroup, { Item } from '../../settings-group';
 import { showDialog } from '../../../state/ui/actions';
 import ToggleGroup from '../../toggle-settings-group';
+import { dailyNoteTitle, defaultTitleFormat } from '../../../utils/daily-notes';
 
 import * as S from '../../../state';
 
 type StateProps = {
+  dailyNoteTag: string;
+  dailyNoteTitleFormat: string;
   keyboardShortcuts: boolean;
   sendNotifications: boolean;
 };
@@ -18,6 +21,8 @@ type StateProps = {
 type DispatchProps = {
   exportNotes: () => any;
   requestNotifications: (sendNotifications: boolean) => any;
+  setDailyNoteTag: (dailyNoteTag: string) => any;
+  setDailyNoteTitleFormat: (dailyNoteTitleFormat: string) => any;
   showImportDialog: () => any;
   toggleShortcuts: () => any;
 };
@@ -25,10 +30,14 @@ type DispatchProps = {
 type Props = DispatchProps & StateProps;
 
 const ToolsPanel: FunctionComponent<Props> = ({
+  dailyNoteTag,
+  dailyNoteTitleFormat,
   exportNotes,
   keyboardShortcuts,
   requestNotifications,
   sendNotifications,
+  setDailyNoteTag,
+  setDailyNoteTitleFormat,
   showImportDialog,
   toggleShortcuts,
 }) => {
@@ -75,13 +84,54 @@ const ToolsPanel: FunctionComponent<Props> = ({
       >
         <Item title="Notify on remote changes" slug="allowNotifications" />
       </SettingsGroup>
+
+      <div className="settings-group settings-daily-notes">
+        <PanelTitle headingLevel={3}>Daily Notes</PanelTitle>
+        <div className="settings-rule-fields">
+          <label>
+            Title format
+            <input
+              className="theme-color-bg theme-color-fg theme-color-border"
+              onChange={({ target: { value } }) =>
+                setDailyNoteTitleFormat(value)
+              }
+              placeholder={defaultTitleFormat}
+              spellCheck={false}
+              value={dailyNoteTitleFormat}
+            />
+          </label>
+          <label>
+            Tag
+            <input
+              className="theme-color-bg theme-color-fg theme-color-border"
+              onChange={({ target: { value } }) => setDailyNoteTag(value)}
+              placeholder="No tag"
+              spellCheck={false}
+              value={dailyNoteTag}
+            />
+          </label>
+        </div>
+        <p>
+          {`Today’s note is titled “${dailyNoteTitle(
+            new Date(),
+            dailyNoteTitleFormat || defaultTitleFormat
+          )}”. Title formats use date-fns patterns, such as “EEEE, MMMM d”.`}
+        </p>
+      </div>
     </Fragment>
   );
 };
 
 const mapStateToProps: S.MapState<StateProps> = ({
-  settings: { keyboardShortcuts, sendNotifications },
+  settings: {
+    dailyNoteTag,
+    dailyNoteTitleFormat,
+    keyboardShortcuts,
+    sendNotifications,
+  },
 }) => ({
+  dailyNoteTag,
+  dailyNoteTitleFormat,
   keyboardShortcuts,
   sendNotifications,
 });
@@ -92,6 +142,8 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
     type: 'REQUEST_NOTIFICATIONS',
     sendNotifications,
   }),
+  setDailyNoteTag: actions.settings.setDailyNoteTag,
+  setDailyNoteTitleFormat: actions.settings.setDailyNoteTitleFormat,
   showImportDialog: () => showDialog('IMPORT'),
   toggleShortcuts: () => actions.settings.toggleKeyboardShortcuts(),
 };
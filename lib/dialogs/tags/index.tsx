@@ -0,0 +1,474 @@
+import React, { Component, FocusEvent, KeyboardEvent } from 'react';
+import { connect } from 'react-redux';
+import format from 'date-fns/format';
+
+import { tagColors } from '../../components/tag-marker';
+import CheckboxControl from '../../controls/checkbox';
+import Dialog from '../../dialog';
+import actions from '../../state/actions';
+import isEmailTag from '../../utils/is-email-tag';
+
+import type * as S from '../../state';
+import type * as T from '../../types';
+
+type SortBy = 'index' | 'name' | 'noteCount' | 'lastUsed';
+
+type TagUsage = {
+  lastUsed: number | null;
+  noteCount: number;
+};
+
+type TagItem = TagUsage & {
+  tag: T.Tag;
+  tagHash: T.TagHash;
+};
+
+type StateProps = {
+  notes: Map<T.EntityId, T.Note>;
+  noteTags: Map<T.TagHash, Set<T.EntityId>>;
+  tagMetadata: Map<T.TagHash, T.TagMetadata>;
+  tags: Map<T.TagHash, T.Tag>;
+};
+
+type DispatchProps = {
+  closeDialog: () => any;
+  renameTag: (oldTagName: T.TagName, newTagName: T.TagName) => any;
+  reorderTag: (tagName: T.TagName, newIndex: number) => any;
+  setTagMetadata: (tagName: T.TagName, metadata: T.TagMetadata) => any;
+  trashTag: (tagName: T.TagName) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = {
+  confirmingTrash: T.TagHash[] | null;
+  selected: Set<T.TagHash>;
+  showEmailTags: boolean;
+  sortBy: SortBy;
+};
+
+const sortOptions: [SortBy, string][] = [
+  ['index', 'Tag list order'],
+  ['name', 'Name'],
+  ['noteCount', 'Number of notes'],
+  ['lastUsed', 'Last used'],
+];
+
+// same order as the tag list when it isn't sorted alphabetically
+const byIndex = (a: T.Tag, b: T.Tag) =>
+  'undefined' !== typeof a.index && 'undefined' !== typeof b.index
+    ? a.index - b.index
+    : 'undefined' === typeof a.index
+    ? 1
+    : -1;
+
+const compareItems: {
+  [sortBy in SortBy]: (a: TagItem, b: TagItem) => number;
+} = {
+  index: (a, b) => byIndex(a.tag, b.tag),
+  name: (a, b) => a.tag.name.localeCompare(b.tag.name),
+  noteCount: (a, b) => b.noteCount - a.noteCount,
+  lastUsed: (a, b) => (b.lastUsed ?? 0) - (a.lastUsed ?? 0),
+};
+
+export class TagsDialog extends Component<Props, OwnState> {
+  static displayName = 'TagsDialog';
+
+  state: OwnState = {
+    confirmingTrash: null,
+    selected: new Set(),
+    showEmailTags: false,
+    sortBy: 'index',
+  };
+
+  /**
+   * Finds how many notes carry each tag and when one of them last changed
+   *
+   * @returns usage of every tag
+   */
+  getUsage = (): Map<T.TagHash, TagUsage> => {
+    const { notes, noteTags, tags } = this.props;
+    const usage = new Map<T.TagHash, TagUsage>();
+
+    tags.forEach((tag, tagHash) => {
+      let lastUsed: number | null = null;
+      const noteIds = noteTags.get(tagHash) ?? new Set();
+
+      noteIds.forEach((noteId) => {
+        const modified = notes.get(noteId)?.modificationDate;
+        if (modified && (null === lastUsed || modified > lastUsed)) {
+          lastUsed = modified;
+        }
+      });
+
+      usage.set(tagHash, { lastUsed, noteCount: noteIds.size });
+    });
+
+    return usage;
+  };
+
+  getItems = (usage: Map<T.TagHash, TagUsage>): TagItem[] => {
+    const { showEmailTags, sortBy } = this.state;
+
+    return Array.from(this.props.tags)
+      .filter(([_, { name }]) => showEmailTags || !isEmailTag(name))
+      .map(([tagHash, tag]) => ({ tag, tagHash, ...usage.get(tagHash)! }))
+      .sort(compareItems[sortBy]);
+  };
+
+  /**
+   * Swaps a tag's place with the tag next to it in the list
+   *
+   * Hidden collaborator tags also have a place in the order,
+   * so this moves the tag to where its neighbor is among all tags.
+   *
+   * @param tag tag to move
+   * @param neighbor tag shown above or below it
+   */
+  moveTag = (tag: T.Tag, neighbor: T.Tag) => {
+    const ordered = Array.from(this.props.tags.values()).sort(byIndex);
+    const newIndex = ordered.findIndex(({ name }) => name === neighbor.name);
+
+    if (newIndex !== -1) {
+      this.props.reorderTag(tag.name, newIndex);
+    }
+  };
+
+  renameTag = (tag: T.Tag, { target }: FocusEvent<HTMLInputElement>) => {
+    const newTagName = target.value.trim() as T.TagName;
+
+    if (newTagName && newTagName !== tag.name) {
+      this.props.renameTag(tag.name, newTagName);
+    } else {
+      target.value = tag.name;
+    }
+  };
+
+  onRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if ('Enter' === event.key) {
+      event.currentTarget.blur();
+    }
+  };
+
+  trashTags = (tagHashes: T.TagHash[]) => {
+    const { tags, trashTag } = this.props;
+
+    tagHashes.forEach((tagHash) => {
+      const tag = tags.get(tagHash);
+      if (tag) {
+        trashTag(tag.name);
+      }
+    });
+
+    this.setState(({ selected }) => {
+      const next = new Set(selected);
+      tagHashes.forEach((tagHash) => next.delete(tagHash));
+      return { confirmingTrash: null, selected: next };
+    });
+  };
+
+  confirmTrash = (tagHashes: T.TagHash[]) =>
+    this.setState({ confirmingTrash: tagHashes });
+
+  cancelTrash = () => this.setState({ confirmingTrash: null });
+
+  toggleSelected = (tagHash: T.TagHash) =>
+    this.setState(({ selected }) => {
+      const next = new Set(selected);
+      if (!next.delete(tagHash)) {
+        next.add(tagHash);
+      }
+      return { selected: next };
+    });
+
+  toggleAllSelected = (items: TagItem[]) =>
+    this.setState(({ selected }) => ({
+      selected: items.every(({ tagHash }) => selected.has(tagHash))
+        ? new Set()
+        : new Set(items.map(({ tagHash }) => tagHash)),
+    }));
+
+  renderLooks(tag: T.Tag, metadata: T.TagMetadata) {
+    const { setTagMetadata } = this.props;
+
+    return (
+      <>
+        <select
+          aria-label={`Color of ${tag.name}`}
+          className={`tags-dialog__color theme-color-bg theme-color-border tag-color-${
+            metadata.color ?? 'none'
+          }`}
+          onChange={({ target: { value } }) =>
+            setTagMetadata(tag.name, {
+              ...metadata,
+              color: (value || undefined) as T.TagColor | undefined,
+            })
+          }
+          value={metadata.color ?? ''}
+        >
+          <option value="">No color</option>
+          {tagColors.map((color) => (
+            <option key={color} value={color}>
+              {color}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label={`Icon for ${tag.name}`}
+          className="tags-dialog__icon theme-color-bg theme-color-fg theme-color-border"
+          maxLength={8}
+          onChange={({ target: { value } }) =>
+            setTagMetadata(tag.name, {
+              ...metadata,
+              icon: value.trim() || undefined,
+            })
+          }
+          placeholder="Emoji"
+          value={metadata.icon ?? ''}
+        />
+      </>
+    );
+  }
+
+  /**
+   * Lists the tags about to be deleted before anything happens to them
+   *
+   * @param tagHashes tags waiting to be deleted
+   * @param usage how many notes carry each tag
+   */
+  renderTrashConfirmation(
+    tagHashes: T.TagHash[],
+    usage: Map<T.TagHash, TagUsage>
+  ) {
+    const { tags } = this.props;
+    const noteCount = tagHashes.reduce(
+      (count, tagHash) => count + (usage.get(tagHash)?.noteCount ?? 0),
+      0
+    );
+
+    return (
+      <section className="tags-dialog__confirmation">
+        <p className="explanation">
+          {noteCount > 0
+            ? `Deleting these tags will remove them from ${noteCount} ${
+                1 === noteCount ? 'note' : 'notes'
+              }. This can't be undone.`
+            : "None of these tags are on any notes. This can't be undone."}
+        </p>
+        <ul className="tags-dialog__confirmation-list theme-color-border">
+          {tagHashes.map((tagHash) => (
+            <li key={tagHash}>{tags.get(tagHash)?.name ?? tagHash}</li>
+          ))}
+        </ul>
+        <section className="tags-dialog__actions">
+          <button
+            className="button button-borderless"
+            onClick={this.cancelTrash}
+            type="button"
+          >
+            Cancel
+          </button>
+          <button
+            className="button button-primary"
+            onClick={() => this.trashTags(tagHashes)}
+            type="button"
+          >
+            {`Delete ${tagHashes.length} ${
+              1 === tagHashes.length ? 'tag' : 'tags'
+            }`}
+          </button>
+        </section>
+      </section>
+    );
+  }
+
+  render() {
+    const { closeDialog, tagMetadata } = this.props;
+    const { confirmingTrash, showEmailTags, sortBy } = this.state;
+
+    const usage = this.getUsage();
+    if (confirmingTrash) {
+      return (
+        <div className="tags-dialog">
+          <Dialog onDone={closeDialog} title="Tags">
+            {this.renderTrashConfirmation(confirmingTrash, usage)}
+          </Dialog>
+        </div>
+      );
+    }
+
+    const items = this.getItems(usage);
+    const selected = items
+      .map(({ tagHash }) => tagHash)
+      .filter((tagHash) => this.state.selected.has(tagHash));
+    const unused = items
+      .filter(({ noteCount }) => 0 === noteCount)
+      .map(({ tagHash }) => tagHash);
+    const canReorder = 'index' === sortBy;
+
+    return (
+      <div className="tags-dialog">
+        <Dialog onDone={closeDialog} title="Tags">
+          <section className="tags-dialog__options">
+            <label className="tags-dialog__option">
+              Sort by
+              <select
+                className="tags-dialog__sort theme-color-bg theme-color-fg theme-color-border"
+                onChange={({ target: { value } }) =>
+                  this.setState({ sortBy: value as SortBy })
+                }
+                value={sortBy}
+              >
+                {sortOptions.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="tags-dialog__option">
+              <CheckboxControl
+                checked={showEmailTags}
+                onChange={() =>
+                  this.setState({ showEmailTags: !showEmailTags })
+                }
+              />
+              Show collaborators
+            </label>
+          </section>
+
+          {items.length > 0 ? (
+            <table className="tags-dialog__tags theme-color-border">
+              <thead>
+                <tr className="theme-color-fg-dim">
+                  <th>
+                    <CheckboxControl
+                      checked={selected.length === items.length}
+                      onChange={() => this.toggleAllSelected(items)}
+                    />
+                  </th>
+                  <th>Tag</th>
+                  <th>Color and icon</th>
+                  <th className="tags-dialog__number">Notes</th>
+                  <th>Last used</th>
+                  {canReorder && <th />}
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(({ lastUsed, noteCount, tag, tagHash }, index) => (
+                  <tr key={tagHash}>
+                    <td>
+                      <CheckboxControl
+                        checked={this.state.selected.has(tagHash)}
+                        onChange={() => this.toggleSelected(tagHash)}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        key={tag.name}
+                        aria-label={`Rename ${tag.name}`}
+                        className="tags-dialog__name theme-color-fg"
+                        defaultValue={tag.name}
+                        onBlur={(event) => this.renameTag(tag, event)}
+                        onKeyDown={this.onRenameKeyDown}
+                        spellCheck={false}
+                      />
+                    </td>
+                    <td className="tags-dialog__looks">
+                      {this.renderLooks(tag, tagMetadata.get(tagHash) ?? {})}
+                    </td>
+                    <td className="tags-dialog__number">{noteCount}</td>
+                    <td className="theme-color-fg-dim">
+                      {lastUsed ? format(lastUsed * 1000, 'MMM d, yyyy') : '—'}
+                    </td>
+                    {canReorder && (
+                      <td className="tags-dialog__move">
+                        <button
+                          aria-label={`Move ${tag.name} up`}
+                          className="button button-borderless"
+                          disabled={0 === index}
+                          onClick={() =>
+                            this.moveTag(tag, items[index - 1].tag)
+                          }
+                          type="button"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          aria-label={`Move ${tag.name} down`}
+                          className="button button-borderless"
+                          disabled={items.length - 1 === index}
+                          onClick={() =>
+                            this.moveTag(tag, items[index + 1].tag)
+                          }
+                          type="button"
+                        >
+                          ↓
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="tags-dialog__empty theme-color-fg-dim">
+              There are no tags yet.
+            </p>
+          )}
+
+          <section className="tags-dialog__actions">
+            <button
+              className="button button-borderless"
+              disabled={0 === unused.length}
+              onClick={() => this.confirmTrash(unused)}
+              type="button"
+            >
+              {`Remove ${unused.length} unused ${
+                1 === unused.length ? 'tag' : 'tags'
+              }`}
+            </button>
+            <button
+              className="button button-primary"
+              disabled={0 === selected.length}
+              onClick={() => this.confirmTrash(selected)}
+              type="button"
+            >
+              {`Delete ${selected.length} ${
+                1 === selected.length ? 'tag' : 'tags'
+              }`}
+            </button>
+          </section>
+        </Dialog>
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  notes: state.data.notes,
+  noteTags: state.data.noteTags,
+  tagMetadata: state.data.tagMetadata,
+  tags: state.data.tags,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  closeDialog: actions.ui.closeDialog,
+  renameTag: (oldTagName, newTagName) => ({
+    type: 'RENAME_TAG',
+    oldTagName,
+    newTagName,
+  }),
+  reorderTag: (tagName, newIndex) => ({
+    type: 'REORDER_TAG',
+    tagName,
+    newIndex,
+  }),
+  setTagMetadata: actions.data.setTagMetadata,
+  trashTag: (tagName) => ({
+    type: 'TRASH_TAG',
+    tagName,
+  }),
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(TagsDialog);
@@ -0,0 +1,115 @@
+import React, { Component } from 'react';
+import { connect } from 'react-redux';
+
+import Dialog from '../../dialog';
+import actions from '../../state/actions';
+import { isTemplate, templateTagName } from '../../utils/note-templates';
+import { noteTitleAndPreview } from '../../utils/note-utils';
+
+import type * as S from '../../state';
+import type * as T from '../../types';
+
+type StateProps = {
+  notes: Map<T.EntityId, T.Note>;
+};
+
+type DispatchProps = {
+  closeDialog: () => any;
+  createNoteFromTemplate: (templateId: T.EntityId, title: string) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = {
+  title: string;
+};
+
+export class TemplatesDialog extends Component<Props, OwnState> {
+  static displayName = 'TemplatesDialog';
+
+  state: OwnState = {
+    title: '',
+  };
+
+  createFromTemplate = (templateId: T.EntityId, templateTitle: string) => {
+    const { closeDialog, createNoteFromTemplate } = this.props;
+
+    closeDialog();
+    createNoteFromTemplate(
+      templateId,
+      this.state.title.trim() || templateTitle
+    );
+  };
+
+  render() {
+    const { closeDialog, notes } = this.props;
+    const { title } = this.state;
+
+    const templates = Array.from(notes)
+      .filter(([, note]) => isTemplate(note))
+      .map(([noteId, note]) => ({ noteId, ...noteTitleAndPreview(note) }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+
+    return (
+      <div className="templates-dialog">
+        <Dialog onDone={closeDialog} title="New from Template">
+          {templates.length > 0 ? (
+            <>
+              <label className="templates-dialog__title">
+                Title
+                <input
+                  autoFocus
+                  className="theme-color-bg theme-color-fg theme-color-border"
+                  onChange={({ target: { value } }) =>
+                    this.setState({ title: value })
+                  }
+                  placeholder="Fills in {{title}}"
+                  spellCheck={false}
+                  value={title}
+                />
+              </label>
+              <ul className="templates-dialog__templates theme-color-border">
+                {templates.map(({ noteId, preview, title: templateTitle }) => (
+                  <li key={noteId}>
+                    <button
+                      className="templates-dialog__template theme-color-border"
+                      onClick={() =>
+                        this.createFromTemplate(noteId, templateTitle)
+                      }
+                      type="button"
+                    >
+                      <span className="templates-dialog__template-title">
+                        {templateTitle}
+                      </span>
+                      <span className="templates-dialog__template-preview theme-color-fg-dim">
+                        {preview}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="templates-dialog__empty theme-color-fg-dim">
+              {`Tag a note “${templateTagName}” to start new notes from it.`}
+            </p>
+          )}
+          <p className="templates-dialog__help theme-color-fg-dim">
+            {'Templates can use {{date}}, {{time}}, {{title}} and {{cursor}}.'}
+          </p>
+        </Dialog>
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  notes: state.data.notes,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  closeDialog: actions.ui.closeDialog,
+  createNoteFromTemplate: actions.ui.createNoteFromTemplate,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(TemplatesDialog);
@@ -0,0 +1,15 @@
+import React from 'react';
+
+export default function OutlineIcon() {
+  return (
+    <svg
+      className="icon-outline"
+      xmlns="http://www.w3.org/2000/svg"
+      width="22"
+      height="22"
+      viewBox="0 0 22 22"
+    >
+      <path d="M3 5h2v2H3V5zm4 0h12v2H7V5zm0 5h2v2H7v-2zm4 0h8v2h-8v-2zm-4 5h2v2H7v-2zm4 0h8v2h-8v-2z" />
+    </svg>
+  );
+}
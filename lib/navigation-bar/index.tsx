@@ -4,12 +4,15 @@ import onClickOutside from 'react-onclickoutside';
 
 import ConnectionStatus from '../connection-status';
 import NavigationBarItem from './item';
+import SavedSearches from './saved-searches';
 import TagList from '../tag-list';
+import CheckmarkIcon from '../icons/checkmark';
 import NotesIcon from '../icons/notes';
 import TrashIcon from '../icons/trash';
 import SettingsIcon from '../icons/settings';
 import { viewExternalUrl } from '../utils/url-utils';
 import actions from '../state/actions';
+import { getSavedSearches } from '../state/selectors';
 
 import * as S from '../state';
 import * as T from '../types';
@@ -17,8 +20,10 @@ import * as T from '../types';
 type StateProps = {
   autoHideMenuBar: boolean;
   isDialogOpen: boolean;
+  isSavedSearchOpen: boolean;
   openedTag: T.TagEntity | null;
   showNavigation: boolean;
+  showTasks: boolean;
   showTrash: boolean;
 };
 
@@ -29,6 +34,7 @@ type DispatchProps = {
   onShowAllNotes: () => any;
   selectTrash: () => any;
   showKeyboardShortcuts: () => any;
+  showTasks: () => any;
 };
 
 type Props = StateProps & DispatchProps;
@@ -57,14 +63,25 @@ export class NavigationBar extends Component<Props> {
 
   // Determine if the selected class should be applied for the 'all notes' or 'trash' rows
   isSelected = ({ isTrashRow }: { isTrashRow: boolean }) => {
-    const { showTrash, openedTag } = this.props;
+    const { isSavedSearchOpen, showTasks, showTrash, openedTag } = this.props;
     const isItemSelected = isTrashRow === showTrash;
 
-    return isItemSelected && !openedTag;
+    return (
+      isItemSelected &&
+      !openedTag &&
+      !showTasks &&
+      (isTrashRow || !isSavedSearchOpen)
+    );
   };
 
   render() {
-    const { autoHideMenuBar, onAbout, onSettings, onShowAllNotes } = this.props;
+    const {
+      autoHideMenuBar,
+      onAbout,
+      onSettings,
+      onShowAllNotes,
+      showTasks,
+    } = this.props;
     return (
       <div className="navigation-bar theme-color-bg theme-color-fg theme-color-border">
         <div className="navigation-bar__folders">
@@ -80,6 +97,13 @@ export class NavigationBar extends Component<Props> {
             label="Trash"
             onClick={this.onSelectTrash}
           />
+          <NavigationBarItem
+            icon={<CheckmarkIcon />}
+            isSelected={showTasks}
+            label="Tasks"
+            onClick={this.props.showTasks}
+          />
+          <SavedSearches />
         </div>
         <div className="navigation-bar__tags theme-color-border">
           <TagList />
@@ -127,15 +151,16 @@ export class NavigationBar extends Component<Props> {
   }
 }
 
-const mapStateToProps: S.MapState<StateProps> = ({
-  settings,
-  ui: { dialogs, openedTag, showNavigation, showTrash },
-}) => ({
-  autoHideMenuBar: settings.autoHideMenuBar,
-  isDialogOpen: dialogs.length > 0,
-  openedTag,
-  showNavigation,
-  showTrash,
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  autoHideMenuBar: state.settings.autoHideMenuBar,
+  isDialogOpen: state.ui.dialogs.length > 0,
+  isSavedSearchOpen: getSavedSearches(state).some(
+    ({ query }) => query === state.ui.searchQuery
+  ),
+  openedTag: state.ui.openedTag,
+  showNavigation: state.ui.showNavigation,
+  showTasks: state.ui.showTasks,
+  showTrash: state.ui.showTrash,
 });
 
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
@@ -145,6 +170,7 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   onSettings: () => actions.ui.showDialog('SETTINGS'),
   selectTrash: actions.ui.selectTrash,
   showKeyboardShortcuts: () => actions.ui.showDialog('KEYBINDINGS'),
+  showTasks: actions.ui.showTasks,
 };
 
 export default connect(
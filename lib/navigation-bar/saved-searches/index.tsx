@@ -0,0 +1,157 @@
+import React, { Component, KeyboardEvent } from 'react';
+import { connect } from 'react-redux';
+
+import NavigationBarItem from '../item';
+import SmallCrossIcon from '../../icons/cross-small';
+import SmallSearchIcon from '../../icons/search-small';
+import {
+  getSavedSearches,
+  getSortReversed,
+  getSortType,
+} from '../../state/selectors';
+import actions from '../../state/actions';
+
+import type * as S from '../../state';
+import type * as T from '../../types';
+
+type StateProps = {
+  counts: Map<string, number>;
+  isBrowsingAllNotes: boolean;
+  savedSearches: T.SavedSearch[];
+  searchQuery: string;
+  sortReversed: boolean;
+  sortType: T.SortType;
+};
+
+type DispatchProps = {
+  deleteSavedSearch: (name: string) => any;
+  openSavedSearch: (name: string) => any;
+  saveSearch: (savedSearch: T.SavedSearch) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = {
+  isNaming: boolean;
+  name: string;
+};
+
+export class SavedSearches extends Component<Props, OwnState> {
+  static displayName = 'SavedSearches';
+
+  state = {
+    isNaming: false,
+    name: '',
+  };
+
+  startNaming = () =>
+    this.setState({ isNaming: true, name: this.props.searchQuery.trim() });
+
+  stopNaming = () => this.setState({ isNaming: false, name: '' });
+
+  onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'Enter': {
+        const { saveSearch, searchQuery, sortReversed, sortType } = this.props;
+        const name = this.state.name.trim();
+
+        if (name) {
+          saveSearch({ name, query: searchQuery, sortType, sortReversed });
+        }
+        this.stopNaming();
+        return;
+      }
+
+      case 'Escape':
+        event.stopPropagation();
+        this.stopNaming();
+        return;
+    }
+  };
+
+  render() {
+    const {
+      counts,
+      deleteSavedSearch,
+      isBrowsingAllNotes,
+      openSavedSearch,
+      savedSearches,
+      searchQuery,
+    } = this.props;
+    const { isNaming, name } = this.state;
+
+    const canSave =
+      searchQuery.trim().length > 0 &&
+      !savedSearches.some(({ query }) => query === searchQuery);
+
+    return (
+      <div className="saved-searches">
+        {savedSearches.map((savedSearch) => (
+          <div key={savedSearch.name} className="saved-searches__item">
+            <NavigationBarItem
+              icon={<SmallSearchIcon />}
+              isSelected={
+                isBrowsingAllNotes && searchQuery === savedSearch.query
+              }
+              label={savedSearch.name}
+              onClick={() => openSavedSearch(savedSearch.name)}
+            />
+            {counts.has(savedSearch.query) && (
+              <span className="saved-searches__count theme-color-fg-dim">
+                {counts.get(savedSearch.query)}
+              </span>
+            )}
+            <button
+              aria-label="Remove saved search"
+              className="saved-searches__remove button button-borderless"
+              onClick={() => deleteSavedSearch(savedSearch.name)}
+              type="button"
+            >
+              <SmallCrossIcon />
+            </button>
+          </div>
+        ))}
+        {isNaming ? (
+          <input
+            aria-label="Saved search name"
+            autoFocus
+            className="saved-searches__name theme-color-bg theme-color-fg theme-color-border"
+            onBlur={this.stopNaming}
+            onChange={(event) => this.setState({ name: event.target.value })}
+            onKeyDown={this.onKeyDown}
+            placeholder="Name this search"
+            spellCheck={false}
+            value={name}
+          />
+        ) : (
+          canSave && (
+            <button
+              className="saved-searches__save button button-borderless theme-color-fg-dim"
+              onClick={this.startNaming}
+              type="button"
+            >
+              Save Search
+            </button>
+          )
+        )}
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  counts: state.ui.savedSearchCounts,
+  isBrowsingAllNotes: !state.ui.openedTag && !state.ui.showTrash,
+  savedSearches: getSavedSearches(state),
+  searchQuery: state.ui.searchQuery,
+  sortReversed: getSortReversed(state),
+  sortType: getSortType(state),
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  deleteSavedSearch: actions.data.deleteSavedSearch,
+  openSavedSearch: actions.ui.openSavedSearch,
+  saveSearch: actions.data.saveSearch,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(SavedSearches);
@@ -5,13 +5,40 @@ import Monaco, {
   EditorDidMount,
   EditorWillMount,
 } from 'react-monaco-editor';
-import { editor as Editor, Selection, SelectionDirection } from 'monaco-editor';
+import {
+  editor as Editor,
+  IDisposable,
+  languages,
+  Range,
+  Selection,
+  SelectionDirection,
+} from 'monaco-editor';
+import format from 'date-fns/format';
+import formatDistanceToNow from 'date-fns/formatDistanceToNow';
 import { search } from './state/ui/actions';
 
 import actions from './state/actions';
 import * as selectors from './state/selectors';
 import { getTerms } from './utils/filter-notes';
-import { isSafari } from './utils/platform';
+import {
+  headingAtLine,
+  MarkdownHeading,
+  markdownHeadings,
+} from './utils/markdown-headings';
+import {
+  markdownLanguageId,
+  markdownThemeRules,
+  registerMarkdownLanguage,
+} from './utils/markdown-language';
+import { findNoteLinks, linkResolver, noteLinkText } from './utils/note-links';
+import { noteTitleAndPreview } from './utils/note-utils';
+import { isMac, isSafari } from './utils/platform';
+import {
+  findDueDate,
+  moveDoneTasksDown,
+  noteTasks,
+  setAllTasksDone,
+} from './utils/tasks';
 import {
   withCheckboxCharacters,
   withCheckboxSyntax,
@@ -24,6 +51,9 @@ import * as T from './types';
 
 const SPEED_DELAY = 120;
 
+// lines starting with a checkbox, possibly after a bullet
+const checklistLine = /^\s*(?:[-+*\u2022]\s)?[\ue000\ue001]\s/;
+
 const titleDecorationForLine = (line: number) => ({
   range: new monaco.Range(line, 1, line, 1),
   options: {
@@ -58,11 +88,14 @@ type OwnProps = {
 type StateProps = {
   editorSelection: [number, number, 'RTL' | 'LTR'];
   fontSize: number;
+  headingTarget: { noteId: T.EntityId; line: number } | null;
   keyboardShortcuts: boolean;
   lineLength: T.LineLength;
   noteId: T.EntityId;
   note: T.Note;
+  notes: Map<T.EntityId, T.Note>;
   searchQuery: string;
+  showOutline: boolean;
   spellCheckEnabled: boolean;
   theme: T.Theme;
 };
@@ -71,6 +104,8 @@ type DispatchProps = {
   clearSearch: () => any;
   editNote: (noteId: T.EntityId, changes: Partial<T.Note>) => any;
   insertTask: () => any;
+  openNote: (noteId: T.EntityId) => any;
+  setCurrentHeading: (noteId: T.EntityId, line: number | null) => any;
   storeEditorSelection: (
     noteId: T.EntityId,
     start: number,
@@ -92,10 +127,13 @@ type OwnState = {
 
 class NoteContentEditor extends Component<Props> {
   bootTimer: ReturnType<typeof setTimeout> | null = null;
+  completionProviders: IDisposable[] = [];
   editor: Editor.IStandaloneCodeEditor | null = null;
   monaco: Monaco | null = null;
   contentDiv = createRef<HTMLDivElement>();
+  currentHeadingLine: number | null | undefined;
   decorations: string[] = [];
+  headings: MarkdownHeading[] = [];
   matchesInNote: [] = [];
 
   state: OwnState = {
@@ -152,6 +190,7 @@ class NoteContentEditor extends Component<Props> {
     if (this.bootTimer) {
       clearTimeout(this.bootTimer);
     }
+    this.completionProviders.forEach((provider) => provider.dispose());
     window.electron?.removeListener('editorCommand');
     window.removeEventListener('input', this.handleUndoRedo, true);
     this.toggleShortcuts(false);
@@ -237,18 +276,226 @@ class NoteContentEditor extends Component<Props> {
     ) {
       this.setDecorators();
     }
+
+    // the outline panel changes the editor's width, and with it the padding
+    if (this.props.showOutline !== prevProps.showOutline) {
+      this.setState({});
+    }
+
+    if (
+      this.editor &&
+      this.props.note?.systemTags !== prevProps.note?.systemTags
+    ) {
+      this.updateHeadings();
+    }
+
+    const { headingTarget, noteId } = this.props;
+    if (
+      this.editor &&
+      headingTarget &&
+      headingTarget !== prevProps.headingTarget &&
+      headingTarget.noteId === noteId
+    ) {
+      const lineNumber = headingTarget.line + 1;
+
+      this.editor.setPosition({ lineNumber, column: 1 });
+      this.editor.revealRangeAtTop(new Range(lineNumber, 1, lineNumber, 1));
+      this.focusEditor();
+    }
   }
 
+  updateHeadings = () => {
+    this.headings = this.props.note?.systemTags.includes('markdown')
+      ? markdownHeadings(this.editor?.getModel()?.getValue() ?? '')
+      : [];
+    this.updateCurrentHeading();
+  };
+
+  // tracks which heading's section sits at the top of the editor
+  updateCurrentHeading = () => {
+    const topLine = this.editor?.getVisibleRanges()[0]?.startLineNumber;
+    if ('undefined' === typeof topLine) {
+      return;
+    }
+
+    const line = headingAtLine(this.headings, topLine - 1);
+    if (line !== this.currentHeadingLine) {
+      this.currentHeadingLine = line;
+      this.props.setCurrentHeading(this.props.noteId, line);
+    }
+  };
+
   setDecorators = () => {
     this.matchesInNote = this.searchMatches() ?? [];
     const titleDecoration = this.getTitleDecoration() ?? [];
+    const linkDecorations = this.getLinkDecorations() ?? [];
+    const dueDecorations = this.getDueDecorations() ?? [];
+    const checklistDecorations = this.getChecklistDecorations() ?? [];
 
     this.decorations = this.editor.deltaDecorations(this.decorations, [
       ...this.matchesInNote,
       ...titleDecoration,
+      ...linkDecorations,
+      ...dueDecorations,
+      ...checklistDecorations,
     ]);
   };
 
+  getChecklistDecorations = () => {
+    const model = this.editor?.getModel();
+    if (!model) {
+      return;
+    }
+
+    const decorations: Editor.IModelDeltaDecoration[] = [];
+    model.getLinesContent().forEach((lineText, index) => {
+      const match = /^\s*(?:[-+*\u2022]\s)?\ue001\s+/.exec(lineText);
+      if (match && match[0].length < lineText.length) {
+        decorations.push({
+          range: new Range(
+            index + 1,
+            match[0].length + 1,
+            index + 1,
+            lineText.length + 1
+          ),
+          options: { inlineClassName: 'checklist-done' },
+        });
+      }
+    });
+
+    return decorations;
+  };
+
+  getDueDecorations = () => {
+    const model = this.editor?.getModel();
+    if (!model) {
+      return;
+    }
+
+    const now = Date.now();
+    const tasks = noteTasks(
+      this.props.noteId,
+      withCheckboxSyntax(model.getValue())
+    );
+
+    return tasks
+      .filter(({ due }) => due)
+      .map(({ due, isDone, line }) => {
+        const lineNumber = line + 1;
+        const { start, end } = findDueDate(model.getLineContent(lineNumber))!;
+        const isOverdue = !isDone && due!.getTime() < now;
+        const when = format(due!, "EEEE, MMMM d 'at' h:mm a");
+        const status = isDone ? 'is-done' : isOverdue ? 'is-overdue' : '';
+
+        return {
+          range: new Range(lineNumber, start + 1, lineNumber, end + 1),
+          options: {
+            inlineClassName: `due-date ${status}`,
+            hoverMessage: {
+              value: isDone
+                ? `Was due ${when}`
+                : isOverdue
+                ? `Overdue since ${when}`
+                : `Due ${formatDistanceToNow(due!, {
+                    addSuffix: true,
+                  })}, ${when}`,
+            },
+          },
+        };
+      });
+  };
+
+  getLinkDecorations = () => {
+    const model = this.editor?.getModel();
+    if (!model) {
+      return;
+    }
+
+    return findNoteLinks(model.getValue()).map(({ start, end }) => ({
+      range: Range.fromPositions(
+        model.getPositionAt(start),
+        model.getPositionAt(end)
+      ),
+      options: {
+        inlineClassName: 'note-link',
+        hoverMessage: {
+          value: `${isMac ? 'Cmd' : 'Ctrl'}-click to open the note`,
+        },
+      },
+    }));
+  };
+
+  /**
+   * Opens the note linked to at a position in the note's content
+   *
+   * @param offset position in the content
+   * @returns whether there was a link to follow
+   */
+  followNoteLink = (offset: number) => {
+    const { notes, openNote } = this.props;
+    const link = findNoteLinks(this.state.content).find(
+      ({ start, end }) => start <= offset && offset < end
+    );
+    const linkedNoteId = link && linkResolver(notes)(link);
+
+    if (!linkedNoteId) {
+      return false;
+    }
+
+    openNote(linkedNoteId);
+    return true;
+  };
+
+  /**
+   * Suggests links to other notes after typing `[[`
+   *
+   * Picking a note completes the link with the note's id so
+   * that it keeps pointing to the note if its title changes.
+   */
+  completeNoteLinks: languages.CompletionItemProvider['provideCompletionItems'] = (
+    model,
+    position
+  ) => {
+    if (model !== this.editor?.getModel()) {
+      return { suggestions: [] };
+    }
+
+    const { lineNumber, column } = position;
+    const line = model.getLineContent(lineNumber);
+    const typed = /\[\[([^[\]|]*)$/.exec(line.slice(0, column - 1));
+    if (!typed) {
+      return { suggestions: [] };
+    }
+
+    const range = new Range(
+      lineNumber,
+      column - typed[1].length,
+      lineNumber,
+      column + (line.slice(column - 1).startsWith(']]') ? 2 : 0)
+    );
+
+    const suggestions = Array.from(this.props.notes)
+      .filter(
+        ([noteId, note]) =>
+          noteId !== this.props.noteId && !note.deleted && note.content.trim()
+      )
+      .sort(([, a], [, b]) => b.modificationDate - a.modificationDate)
+      .map(([noteId, note], index) => {
+        const { title } = noteTitleAndPreview(note);
+
+        return {
+          filterText: title,
+          insertText: noteLinkText(noteId, title).slice(2),
+          kind: languages.CompletionItemKind.Reference,
+          label: title,
+          range,
+          sortText: String(index).padStart(6, '0'),
+        };
+      });
+
+    return { suggestions };
+  };
+
   getTitleDecoration = () => {
     const model = this.editor.getModel();
     if (!model) {
@@ -390,11 +637,45 @@ class NoteContentEditor extends Component<Props> {
     this.props.insertTask();
   };
 
+  /**
+   * Rewrites the checklists in the note as one undoable edit
+   *
+   * @param editor editor holding the note
+   * @param transform change to make to the content, which has checklist syntax
+   */
+  editChecklists = (
+    editor: Editor.IStandaloneCodeEditor,
+    transform: (content: string) => string
+  ) => {
+    const model = editor.getModel();
+    if (!model) {
+      return;
+    }
+
+    const content = withCheckboxSyntax(model.getValue());
+    const updated = transform(content);
+    if (updated === content) {
+      return;
+    }
+
+    const selection = editor.getSelection();
+    const range = model.getFullModelRange();
+    const identifier = { major: 1, minor: 1 };
+    const text = withCheckboxCharacters(updated);
+    const op = { identifier, range, text, forceMoveMarkers: true };
+
+    editor.pushUndoStop();
+    editor.executeEdits('editChecklists', [op], selection ? [selection] : []);
+    editor.pushUndoStop();
+  };
+
   editorInit: EditorWillMount = (monaco) => {
+    registerMarkdownLanguage();
+
     Editor.defineTheme('simplenote', {
       base: 'vs',
       inherit: true,
-      rules: [{ background: 'FFFFFF' }],
+      rules: [{ background: 'FFFFFF' }, ...markdownThemeRules.light],
       colors: {
         'editor.foreground': '#2c3338', // $studio-gray-80 AKA theme-color-fg
         'editor.background': '#ffffff',
@@ -408,7 +689,7 @@ class NoteContentEditor extends Component<Props> {
     Editor.defineTheme('simplenote-dark', {
       base: 'vs-dark',
       inherit: true,
-      rules: [{ background: '1d2327' }],
+      rules: [{ background: '1d2327' }, ...markdownThemeRules.dark],
       colors: {
         'editor.foreground': '#ffffff',
         'editor.background': '#1d2327', // $studio-gray-90
@@ -558,14 +839,69 @@ class NoteContentEditor extends Component<Props> {
       contextMenuOrder: 1,
       run: this.insertOrRemoveCheckboxes,
     });
+    editor.addAction({
+      id: 'checkAllItems',
+      label: 'Check All Items',
+      contextMenuGroupId: '10_checklist',
+      contextMenuOrder: 2,
+      run: () =>
+        this.editChecklists(editor, (content) =>
+          setAllTasksDone(content, true)
+        ),
+    });
+    editor.addAction({
+      id: 'uncheckAllItems',
+      label: 'Uncheck All Items',
+      contextMenuGroupId: '10_checklist',
+      contextMenuOrder: 3,
+      run: () =>
+        this.editChecklists(editor, (content) =>
+          setAllTasksDone(content, false)
+        ),
+    });
+    editor.addAction({
+      id: 'moveCheckedItemsDown',
+      label: 'Move Checked Items to Bottom',
+      contextMenuGroupId: '10_checklist',
+      contextMenuOrder: 4,
+      run: () => this.editChecklists(editor, moveDoneTasksDown),
+    });
+
+    // Tab and Shift-Tab nest checklist items instead of typing whitespace
+    const onChecklistLine = editor.createContextKey('onChecklistLine', false);
+    editor.onDidChangeCursorPosition(({ position }) => {
+      onChecklistLine.set(
+        checklistLine.test(
+          editor.getModel()?.getLineContent(position.lineNumber) ?? ''
+        )
+      );
+    });
+    editor.addAction({
+      id: 'indentChecklistItem',
+      label: 'Indent Checklist Item',
+      keybindings: [monaco.KeyCode.Tab],
+      precondition: 'onChecklistLine && !suggestWidgetVisible',
+      run: () => editor.trigger('checklist', 'editor.action.indentLines', null),
+    });
+    editor.addAction({
+      id: 'outdentChecklistItem',
+      label: 'Outdent Checklist Item',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.Tab],
+      precondition: 'onChecklistLine && !suggestWidgetVisible',
+      run: () =>
+        editor.trigger('checklist', 'editor.action.outdentLines', null),
+    });
 
     window.electron?.receive('editorCommand', (command) => {
       switch (command.action) {
         case 'findAgain':
           this.setNextSearchSelection();
           return;
+        case 'checkAllItems':
         case 'insertChecklist':
-          editor.trigger('editorCommand', 'insertChecklist', null);
+        case 'moveCheckedItemsDown':
+        case 'uncheckAllItems':
+          editor.trigger('editorCommand', command.action, null);
           return;
         case 'redo':
           if (editor.hasTextFocus()) {
@@ -601,6 +937,11 @@ class NoteContentEditor extends Component<Props> {
     this.setState({});
     editor.onDidChangeModelContent(() => this.setDecorators());
 
+    this.currentHeadingLine = undefined;
+    this.updateHeadings();
+    editor.onDidChangeModelContent(() => this.updateHeadings());
+    editor.onDidScrollChange(() => this.updateCurrentHeading());
+
     document.oncopy = (event) => {
       // @TODO: This is selecting everything in the app but we should only
       //        need to intercept copy events coming from the editor
@@ -678,6 +1019,15 @@ class NoteContentEditor extends Component<Props> {
       }
     });
 
+    this.completionProviders.forEach((provider) => provider.dispose());
+    this.completionProviders = ['plaintext', markdownLanguageId].map(
+      (languageId) =>
+        languages.registerCompletionItemProvider(languageId, {
+          provideCompletionItems: this.completeNoteLinks,
+          triggerCharacters: ['['],
+        })
+    );
+
     editor.onMouseDown((event) => {
       const { editNote, noteId } = this.props;
       const { content } = this.state;
@@ -704,6 +1054,13 @@ class NoteContentEditor extends Component<Props> {
         column: range.startColumn,
       });
 
+      if (
+        (event.event.ctrlKey || event.event.metaKey) &&
+        this.followNoteLink(offset)
+      ) {
+        return;
+      }
+
       if (content[offset] === '\ue000') {
         editNote(noteId, {
           content: withCheckboxSyntax(
@@ -860,8 +1217,16 @@ class NoteContentEditor extends Component<Props> {
   };
 
   render() {
-    const { fontSize, lineLength, noteId, searchQuery, theme } = this.props;
+    const {
+      fontSize,
+      lineLength,
+      note,
+      noteId,
+      searchQuery,
+      theme,
+    } = this.props;
     const { content, editor, overTodo, selectedSearchMatchIndex } = this.state;
+    const isMarkdown = !!note?.systemTags.includes('markdown');
     const searchMatches = searchQuery ? this.searchMatches() : [];
 
     const editorPadding = getEditorPadding(
@@ -888,7 +1253,7 @@ class NoteContentEditor extends Component<Props> {
             key={noteId}
             editorDidMount={this.editorReady}
             editorWillMount={this.editorInit}
-            language="plaintext"
+            language={isMarkdown ? markdownLanguageId : 'plaintext'}
             theme={theme === 'dark' ? 'simplenote-dark' : 'simplenote'}
             onChange={this.updateNote}
             options={{
@@ -898,7 +1263,7 @@ class NoteContentEditor extends Component<Props> {
               autoSurround: 'never',
               automaticLayout: true,
               codeLens: false,
-              folding: false,
+              folding: isMarkdown,
               fontFamily:
                 '"Simplenote Tasks", -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Oxygen-Sans", "Ubuntu", "Cantarell", "Helvetica Neue", sans-serif',
               fontSize,
@@ -921,6 +1286,7 @@ class NoteContentEditor extends Component<Props> {
               },
               scrollBeyondLastLine: false,
               selectionHighlight: false,
+              wordBasedSuggestions: false,
               wordWrap: 'bounded',
               wrappingStrategy: isSafari ? 'simple' : 'advanced',
               wordWrapColumn: 400,
@@ -965,11 +1331,14 @@ const mapStateToProps: S.MapState<StateProps> = (state) => ({
     'LTR',
   ],
   fontSize: state.settings.fontSize,
+  headingTarget: state.ui.headingTarget,
   keyboardShortcuts: state.settings.keyboardShortcuts,
   lineLength: state.settings.lineLength,
   noteId: state.ui.openedNote,
   note: state.data.notes.get(state.ui.openedNote),
+  notes: state.data.notes,
   searchQuery: state.ui.searchQuery,
+  showOutline: state.ui.showOutline,
   spellCheckEnabled: state.settings.spellCheckEnabled,
   theme: selectors.getTheme(state),
 });
@@ -978,6 +1347,8 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   clearSearch: () => dispatch(search('')),
   editNote: actions.data.editNote,
   insertTask: () => ({ type: 'INSERT_TASK' }),
+  openNote: actions.ui.openNote,
+  setCurrentHeading: actions.ui.setCurrentHeading,
   storeEditorSelection: (noteId, start, end, direction) => ({
     type: 'STORE_EDITOR_SELECTION',
     noteId,
@@ -2,6 +2,7 @@ import React, { Component } from 'react';
 import { connect } from 'react-redux';
 import TagField from '../tag-field';
 import NoteDetail from '../note-detail';
+import NoteOutline from '../note-outline';
 import NotePreview from '../components/note-preview';
 import actions from '../state/actions';
 import * as selectors from '../state/selectors';
@@ -19,6 +20,7 @@ type StateProps = {
   keyboardShortcuts: boolean;
   noteId: T.EntityId;
   note: T.Note;
+  showOutline: boolean;
 };
 
 type DispatchProps = {
@@ -111,7 +113,7 @@ export class NoteEditor extends Component<Props> {
   };
 
   render() {
-    const { editMode, note, noteId } = this.props;
+    const { editMode, note, noteId, showOutline } = this.props;
 
     if (!note) {
       return (
@@ -122,17 +124,21 @@ export class NoteEditor extends Component<Props> {
     }
 
     const isTrashed = !!note.deleted;
+    const isMarkdown = note.systemTags.includes('markdown');
 
     return (
       <div className="note-editor theme-color-bg theme-color-fg">
-        {editMode || !note.systemTags.includes('markdown') ? (
-          <NoteDetail
-            storeFocusEditor={this.storeFocusEditor}
-            storeHasFocus={this.storeEditorHasFocus}
-          />
-        ) : (
-          <NotePreview noteId={noteId} />
-        )}
+        <div className="note-editor__body">
+          {editMode || !isMarkdown ? (
+            <NoteDetail
+              storeFocusEditor={this.storeFocusEditor}
+              storeHasFocus={this.storeEditorHasFocus}
+            />
+          ) : (
+            <NotePreview noteId={noteId} />
+          )}
+          {isMarkdown && showOutline && <NoteOutline />}
+        </div>
         {note && !isTrashed && (
           <TagField
             storeFocusTagField={this.storeFocusTagField}
@@ -154,6 +160,7 @@ const mapStateToProps: S.MapState<StateProps> = (state) => ({
   revision: state.ui.selectedRevision,
   isSearchActive: !!state.ui.searchQuery.length,
   isSmallScreen: selectors.isSmallScreen(state),
+  showOutline: state.ui.showOutline,
 });
 
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
@@ -6,25 +6,31 @@ import format from 'date-fns/format';
 
 import LastSyncTime from '../components/last-sync-time';
 import PanelTitle from '../components/panel-title';
+import ProgressBar from '../components/progress-bar';
 import ToggleControl from '../controls/toggle';
 import CrossIcon from '../icons/cross';
 import getNoteTitleAndPreview from '../utils/note-utils';
+import { taskProgress } from '../utils/tasks';
 
 import actions from '../state/actions';
+import { getOpenedNoteBacklinks } from '../state/selectors';
 
 import * as S from '../state';
 import * as T from '../types';
 
 type StateProps = {
+  backlinks: T.EntityId[];
   isMarkdown: boolean;
   isPinned: boolean;
   noteId: T.EntityId;
   note: T.Note;
+  notes: Map<T.EntityId, T.Note>;
 };
 
 type DispatchProps = {
   markdownNote: (noteId: T.EntityId, shouldEnableMarkdown: boolean) => any;
   onOutsideClick: () => any;
+  openNote: (noteId: T.EntityId) => any;
   pinNote: (noteId: T.EntityId, shouldPin: boolean) => any;
 };
 
@@ -75,11 +81,20 @@ export class NoteInfo extends Component<Props> {
   };
 
   render() {
-    const { isMarkdown, isPinned, noteId, note } = this.props;
+    const {
+      backlinks,
+      isMarkdown,
+      isPinned,
+      noteId,
+      note,
+      notes,
+      openNote,
+    } = this.props;
     const formattedDate =
       note.modificationDate && formatTimestamp(note.modificationDate);
     const isPublished = includes(note.systemTags, 'published');
     const publishURL = this.getPublishURL(note.publishURL);
+    const progress = taskProgress(note.content);
 
     return (
       <div className="note-info theme-color-bg theme-color-fg theme-color-border">
@@ -126,6 +141,19 @@ export class NoteInfo extends Component<Props> {
               </span>
             </span>
           </p>
+          {progress.total > 0 && (
+            <div className="note-info-item note-info-progress">
+              <span className="note-info-item-text">
+                <span className="note-info-name">
+                  {progress.done}/{progress.total} checklist items done
+                </span>
+                <ProgressBar
+                  variant="determinate"
+                  value={(100 * progress.done) / progress.total}
+                />
+              </span>
+            </div>
+          )}
         </div>
         <div className="note-info-panel note-info-pin theme-color-border">
           <label className="note-info-item" htmlFor="note-info-pin-checkbox">
@@ -189,6 +217,28 @@ export class NoteInfo extends Component<Props> {
             </div>
           </span>
         </div>
+        <div className="note-info-panel note-info-backlinks theme-color-border">
+          <span className="note-info-item-text">
+            <span className="note-info-name">Linked from</span>
+            {backlinks.length > 0 ? (
+              <ul className="note-info-backlinks-list">
+                {backlinks.map((linkingNoteId) => (
+                  <li key={linkingNoteId}>
+                    <button
+                      type="button"
+                      className="button button-borderless note-info-backlink"
+                      onClick={() => openNote(linkingNoteId)}
+                    >
+                      {getNoteTitleAndPreview(notes.get(linkingNoteId)!).title}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="note-info-detail">No other notes link here.</p>
+            )}
+          </span>
+        </div>
         {isPublished && (
           <div className="note-info-panel note-info-public-link theme-color-border">
             <span className="note-info-item-text">
@@ -250,15 +300,18 @@ function characterCount(content: string) {
   );
 }
 
-const mapStateToProps: S.MapState<StateProps> = ({
-  data,
-  ui: { openedNote },
-}) => {
+const mapStateToProps: S.MapState<StateProps> = (state) => {
+  const {
+    data,
+    ui: { openedNote },
+  } = state;
   const note = data.notes.get(openedNote);
 
   return {
+    backlinks: getOpenedNoteBacklinks(state),
     noteId: openedNote,
     note: note,
+    notes: data.notes,
     isMarkdown: note?.systemTags.includes('markdown'),
     isPinned: note?.systemTags.includes('pinned'),
   };
@@ -267,6 +320,7 @@ const mapStateToProps: S.MapState<StateProps> = ({
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   markdownNote: actions.data.markdownNote,
   onOutsideClick: actions.ui.toggleNoteInfo,
+  openNote: actions.ui.openNote,
   pinNote: actions.data.pinNote,
 };
 
@@ -1,33 +1,36 @@
-import React from 'react';
-import { escapeRegExp } from 'lodash';
-import replaceToArray from 'string-replace-to-array';
+import React, { ReactNode } from 'react';
 
-import { withoutTags } from '../utils/filter-notes';
+import { findMatches } from '../search/fold-text';
 
-export const decorateWith = (decorators, text) =>
-  decorators.length > 0
-    ? decorators
-        .reduce((output, { filter, replacer }) => {
-          const searchText = 'string' === typeof filter && withoutTags(filter);
-          const pattern =
-            searchText && searchText.length > 0
-              ? new RegExp(escapeRegExp(searchText), 'gi')
-              : filter;
+/**
+ * Marks where search terms appear in text shown in the note list
+ *
+ * @param terms text terms of the search
+ * @param text text to mark
+ * @returns text with the matches wrapped in highlights
+ */
+export const highlightTerms = (terms: string[], text: string): ReactNode => {
+  if (terms.length === 0) {
+    return text;
+  }
 
-          return replaceToArray(output, pattern, replacer);
-        }, text)
-        .map((chunk, key) =>
-          chunk && 'string' !== typeof chunk
-            ? React.cloneElement(chunk, { key })
-            : chunk
-        )
-    : text;
-
-export const makeFilterDecorator = (filter) => ({
-  filter,
-  replacer: (match) => {
-    if (match.length) {
-      return <span className="search-match">{match}</span>;
+  const output: ReactNode[] = [];
+  let at = 0;
+  findMatches(text, terms).forEach(([start, end]) => {
+    if (start > at) {
+      output.push(text.slice(at, start));
     }
-  },
-});
+    output.push(
+      <span key={start} className="search-match">
+        {text.slice(start, end)}
+      </span>
+    );
+    at = end;
+  });
+
+  if (at < text.length) {
+    output.push(text.slice(at));
+  }
+
+  return output;
+};
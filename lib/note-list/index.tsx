@@ -9,7 +9,8 @@ import {
 import classNames from 'classnames';
 import { connect } from 'react-redux';
 import NoteCell from './note-cell';
-import TagSuggestions from '../tag-suggestions';
+import TagSuggestions, { filterQualifiers } from '../tag-suggestions';
+import { parseQuery, searchesHistory } from '../utils/filter-notes';
 
 import actions from '../state/actions';
 import * as selectors from '../state/selectors';
@@ -25,6 +26,7 @@ type StateProps = {
   noteDisplay: T.ListDisplayMode;
   openedNote: T.EntityId | null;
   openedTag: T.EntityId | null;
+  revisionsLoaded: number | null;
   searchQuery: string;
   showNoteList: boolean;
   showTrash: boolean;
@@ -271,6 +273,7 @@ export class NoteList extends Component<Props> {
       noteDisplay,
       onEmptyTrash,
       openedNote,
+      revisionsLoaded,
       searchQuery,
       showTrash,
       tagResultsFound,
@@ -304,6 +307,13 @@ export class NoteList extends Component<Props> {
 
     return (
       <div className={classNames('note-list', { 'is-empty': isEmptyList })}>
+        {null !== revisionsLoaded && (
+          <div className="note-list-notice theme-color-fg-dim">
+            {`Searching the history of the ${revisionsLoaded} ${
+              1 === revisionsLoaded ? 'note' : 'notes'
+            } opened on this device`}
+          </div>
+        )}
         {isEmptyList ? (
           <span className="note-list-placeholder">
             {hasLoaded ? 'No Notes' : 'Loading Notes'}
@@ -345,10 +355,17 @@ const mapStateToProps: S.MapState<StateProps> = (state) => {
     filteredNotes: state.ui.filteredNotes,
     openedNote: state.ui.openedNote,
     openedTag: state.ui.openedTag,
+    // revisions are only fetched when opening notes, which
+    // limits which notes a history search can find
+    revisionsLoaded: searchesHistory(parseQuery(state.ui.searchQuery))
+      ? state.data.noteRevisions.size
+      : null,
     searchQuery: state.ui.searchQuery,
     showNoteList: state.ui.showNoteList,
     showTrash: state.ui.showTrash,
-    tagResultsFound: state.ui.tagSuggestions.length,
+    tagResultsFound:
+      state.ui.tagSuggestions.length +
+      filterQualifiers(state.ui.searchQuery).length,
     windowWidth: state.browser.windowWidth,
   };
 };
@@ -2,13 +2,17 @@ import React, { Component, CSSProperties } from 'react';
 import { connect } from 'react-redux';
 import classNames from 'classnames';
 
+import TagChip from '../components/tag-chip';
 import PublishIcon from '../icons/published-small';
 import SmallPinnedIcon from '../icons/pinned-small';
 import SmallSyncIcon from '../icons/sync-small';
-import { decorateWith, makeFilterDecorator } from './decorators';
+import { highlightTerms } from './decorators';
 import { getTerms } from '../utils/filter-notes';
-import { noteTitleAndPreview } from '../utils/note-utils';
+import { noteSnippet, noteTitleAndPreview } from '../utils/note-utils';
+import isEmailTag from '../utils/is-email-tag';
+import { tagHashOf } from '../utils/tag-hash';
 import { withCheckboxCharacters } from '../utils/task-transform';
+import { taskProgress } from '../utils/tasks';
 
 import actions from '../state/actions';
 import * as selectors from '../state/selectors';
@@ -29,11 +33,14 @@ type StateProps = {
   isOpened: boolean;
   lastUpdated: number;
   note?: T.Note;
+  revisionMatches?: number[];
   searchQuery: string;
+  tagMetadata: Map<T.TagHash, T.TagMetadata>;
 };
 
 type DispatchProps = {
   openNote: (noteId: T.EntityId) => any;
+  openRevision: (noteId: T.EntityId, version: number) => any;
   pinNote: (noteId: T.EntityId, shouldPin: boolean) => any;
 };
 
@@ -51,7 +58,13 @@ export class NoteCell extends Component<Props> {
   }
 
   componentDidUpdate(prevProps: Props) {
-    if (prevProps.note?.content !== this.props.note?.content) {
+    // snippets of search matches can change the height too
+    if (
+      prevProps.note?.content !== this.props.note?.content ||
+      prevProps.note?.tags !== this.props.note?.tags ||
+      prevProps.searchQuery !== this.props.searchQuery ||
+      prevProps.revisionMatches !== this.props.revisionMatches
+    ) {
       this.props.invalidateHeight();
     }
 
@@ -76,9 +89,12 @@ export class NoteCell extends Component<Props> {
       noteId,
       note,
       openNote,
+      openRevision,
       pinNote,
+      revisionMatches,
       searchQuery,
       style,
+      tagMetadata,
     } = this.props;
 
     if (!note) {
@@ -86,8 +102,13 @@ export class NoteCell extends Component<Props> {
     }
 
     const { title, preview } = noteTitleAndPreview(note);
+    const terms = getTerms(searchQuery);
+    const snippet = noteSnippet(noteId, note, terms, displayMode);
+    const excerpt = snippet ?? preview;
+    const tags = note.tags.filter((tagName) => !isEmailTag(tagName));
     const isPinned = note.systemTags.includes('pinned');
     const isPublished = !!note.publishURL;
+    const progress = taskProgress(note.content);
     const recentlyUpdated =
       lastUpdated - this.createdAt > 1000 && Date.now() - lastUpdated < 1200;
     const classes = classNames('note-list-item', {
@@ -101,8 +122,6 @@ export class NoteCell extends Component<Props> {
       'note-list-item-pinned': isPinned,
     });
 
-    const decorators = getTerms(searchQuery).map(makeFilterDecorator);
-
     return (
       <div style={style} className={classes}>
         <div className="note-list-item-status">
@@ -121,32 +140,75 @@ export class NoteCell extends Component<Props> {
           onClick={() => openNote(noteId)}
         >
           <div className="note-list-item-title">
-            <span>
-              {decorateWith(decorators, withCheckboxCharacters(title))}
-            </span>
+            <span>{highlightTerms(terms, withCheckboxCharacters(title))}</span>
+            {'condensed' === displayMode && snippet && (
+              <span className="note-list-item-snippet">
+                {highlightTerms(terms, withCheckboxCharacters(snippet))}
+              </span>
+            )}
           </div>
-          {'expanded' === displayMode && preview.length > 0 && (
+          {'expanded' === displayMode && excerpt.length > 0 && (
             <div className="note-list-item-excerpt">
-              {withCheckboxCharacters(preview)
+              {withCheckboxCharacters(excerpt)
                 .split('\n')
                 .map((line, index) => (
                   <React.Fragment key={index}>
                     {index > 0 && <br />}
-                    {decorateWith(decorators, line.slice(0, 200))}
+                    {highlightTerms(terms, line.slice(0, 200))}
                   </React.Fragment>
                 ))}
             </div>
           )}
-          {'comfy' === displayMode && preview.length > 0 && (
+          {'expanded' === displayMode && tags.length > 0 && (
+            <div className="note-list-item-tags">
+              {tags.map((tagName) => (
+                <TagChip
+                  key={tagName}
+                  metadata={tagMetadata.get(tagHashOf(tagName))}
+                  selected={false}
+                  tagName={tagName}
+                />
+              ))}
+            </div>
+          )}
+          {'comfy' === displayMode && excerpt.length > 0 && (
             <div className="note-list-item-excerpt">
-              {decorateWith(
-                decorators,
-                withCheckboxCharacters(preview).slice(0, 200)
+              {highlightTerms(
+                terms,
+                withCheckboxCharacters(excerpt).slice(0, 200)
               )}
             </div>
           )}
+          {revisionMatches && revisionMatches.length > 0 && (
+            <div className="note-list-item-revisions">
+              In versions
+              {revisionMatches.map((version) => (
+                <button
+                  key={version}
+                  className="note-list-item-revision button button-borderless"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    openRevision(noteId, version);
+                  }}
+                  type="button"
+                >
+                  {version}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div className="note-list-item-status-right theme-color-border">
+          {progress.total > 0 && (
+            <span
+              className={classNames('note-list-item-progress', {
+                'is-complete': progress.done === progress.total,
+              })}
+              title={`${progress.done} of ${progress.total} checklist items done`}
+            >
+              {`${progress.done}/${progress.total}`}
+            </span>
+          )}
           {hasPendingChanges && (
             <span
               className={classNames('note-list-item-pending-changes', {
@@ -177,11 +239,14 @@ const mapStateToProps: S.MapState<StateProps, OwnProps> = (
   isOpened: state.ui.openedNote === noteId,
   lastUpdated: state.simperium.lastRemoteUpdate.get(noteId) ?? -Infinity,
   note: state.data.notes.get(noteId),
+  revisionMatches: state.ui.revisionMatches.get(noteId),
   searchQuery: state.ui.searchQuery,
+  tagMetadata: state.data.tagMetadata,
 });
 
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   openNote: actions.ui.openNote,
+  openRevision: actions.ui.openRevision,
   pinNote: actions.data.pinNote,
 };
 
@@ -0,0 +1,102 @@
+import React, { Component } from 'react';
+import { connect } from 'react-redux';
+import classNames from 'classnames';
+
+import PanelTitle from '../components/panel-title';
+import CrossIcon from '../icons/cross';
+import {
+  HeadingNode,
+  headingTree,
+  markdownHeadings,
+} from '../utils/markdown-headings';
+
+import actions from '../state/actions';
+
+import * as S from '../state';
+import * as T from '../types';
+
+type StateProps = {
+  currentLine: number | null;
+  noteId: T.EntityId | null;
+  note: T.Note | null;
+};
+
+type DispatchProps = {
+  goToHeading: (noteId: T.EntityId, line: number) => any;
+  toggleOutline: () => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+export class NoteOutline extends Component<Props> {
+  static displayName = 'NoteOutline';
+
+  renderHeadings = (headings: HeadingNode[]) => (
+    <ul className="note-outline__headings">
+      {headings.map(({ children, line, text }) => (
+        <li key={line}>
+          <button
+            className={classNames(
+              'note-outline__heading button button-borderless theme-color-fg',
+              { 'is-current': line === this.props.currentLine }
+            )}
+            onClick={() =>
+              this.props.noteId &&
+              this.props.goToHeading(this.props.noteId, line)
+            }
+            title={text}
+            type="button"
+          >
+            {text || 'Untitled heading'}
+          </button>
+          {children.length > 0 && this.renderHeadings(children)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  render() {
+    const { note, toggleOutline } = this.props;
+    const headings = headingTree(markdownHeadings(note?.content ?? ''));
+
+    return (
+      <div className="note-outline theme-color-bg theme-color-fg theme-color-border">
+        <div className="note-outline__header">
+          <PanelTitle headingLevel={2}>Outline</PanelTitle>
+          <button
+            className="button button-borderless"
+            onClick={toggleOutline}
+            title="Close outline"
+            type="button"
+          >
+            <CrossIcon />
+          </button>
+        </div>
+        {headings.length > 0 ? (
+          this.renderHeadings(headings)
+        ) : (
+          <p className="note-outline__empty theme-color-fg-dim">
+            Start a line with # to add a heading.
+          </p>
+        )}
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = ({
+  data,
+  ui: { currentHeading, openedNote },
+}) => ({
+  currentLine:
+    currentHeading?.noteId === openedNote ? currentHeading.line : null,
+  noteId: openedNote,
+  note: (openedNote && data.notes.get(openedNote)) ?? null,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  goToHeading: actions.ui.goToHeading,
+  toggleOutline: actions.ui.toggleOutline,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(NoteOutline);
@@ -4,6 +4,7 @@ import { connect } from 'react-redux';
 import IconButton from '../icon-button';
 import BackIcon from '../icons/back';
 import InfoIcon from '../icons/info';
+import OutlineIcon from '../icons/outline';
 import PreviewIcon from '../icons/preview';
 import PreviewStopIcon from '../icons/preview-stop';
 import RevisionsIcon from '../icons/revisions';
@@ -31,6 +32,7 @@ type DispatchProps = {
   toggleFocusMode: () => any;
   toggleNoteInfo: () => any;
   toggleNoteList: () => any;
+  toggleOutline: () => any;
   toggleRevisions: () => any;
   trashNote: () => any;
 };
@@ -90,6 +92,15 @@ export class NoteToolbar extends Component<Props> {
               />
             </div>
           )}
+          {markdownEnabled && (
+            <div className="note-toolbar__button">
+              <IconButton
+                icon={<OutlineIcon />}
+                onClick={this.props.toggleOutline}
+                title="Outline"
+              />
+            </div>
+          )}
           <div className="note-toolbar__button">
             <IconButton
               disabled={!hasRevisions}
@@ -186,6 +197,7 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
   toggleFocusMode: actions.settings.toggleFocusMode,
   toggleNoteInfo: actions.ui.toggleNoteInfo,
   toggleNoteList: actions.ui.toggleNoteList,
+  toggleOutline: actions.ui.toggleOutline,
   toggleRevisions: actions.ui.toggleRevisions,
   trashNote: actions.ui.trashOpenNote,
 };
@@ -8,11 +8,12 @@ import { connect } from 'react-redux';
  * Internal dependencies
  */
 import IconButton from '../icon-button';
+import FileIcon from '../icons/file';
 import NewNoteIcon from '../icons/new-note';
 import SearchField from '../search-field';
 import MenuIcon from '../icons/menu';
 import { withoutTags } from '../utils/filter-notes';
-import { createNote, toggleNavigation } from '../state/ui/actions';
+import { createNote, showDialog, toggleNavigation } from '../state/ui/actions';
 
 import * as S from '../state';
 
@@ -29,6 +30,7 @@ type StateProps = {
 
 type DispatchProps = {
   onNewNote: (content: string) => any;
+  openTemplates: () => any;
   toggleNavigation: () => any;
 };
 
@@ -36,6 +38,7 @@ type Props = OwnProps & StateProps & DispatchProps;
 
 export const SearchBar: FunctionComponent<Props> = ({
   onNewNote,
+  openTemplates,
   searchQuery,
   showTrash,
   toggleNavigation,
@@ -53,6 +56,12 @@ export const SearchBar: FunctionComponent<Props> = ({
       onClick={() => onNewNote(withoutTags(searchQuery))}
       title="New Note • Ctrl+Shift+I"
     />
+    <IconButton
+      disabled={showTrash}
+      icon={<FileIcon />}
+      onClick={openTemplates}
+      title="New from Template • Ctrl+Shift+O"
+    />
   </div>
 );
 
@@ -69,6 +78,9 @@ const mapDispatchToProps: S.MapDispatch<DispatchProps, OwnProps> = (
   onNewNote: (content: string) => {
     dispatch(createNote(content));
   },
+  openTemplates: () => {
+    dispatch(showDialog('TEMPLATES'));
+  },
   toggleNavigation: () => {
     dispatch(toggleNavigation());
   },
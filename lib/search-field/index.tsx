@@ -5,6 +5,7 @@ import { State } from '../state';
 import { search } from '../state/ui/actions';
 
 import { registerSearchField } from '../state/ui/search-field-middleware';
+import { tagNameOf } from '../utils/tag-hash';
 
 import type * as S from '../state';
 import type * as T from '../types';
@@ -104,7 +105,10 @@ const mapStateToProps: S.MapState<StateProps> = ({
   data,
   ui: { openedTag, searchQuery, showTrash },
 }: State) => ({
-  openedTag: openedTag ? data.tags.get(openedTag) ?? null : null,
+  // levels of nested tags can be opened without being tags themselves
+  openedTag: openedTag
+    ? data.tags.get(openedTag) ?? { name: tagNameOf(openedTag) }
+    : null,
   searchQuery,
   showTrash,
 });
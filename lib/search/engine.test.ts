@@ -0,0 +1,303 @@
+import { createSearchEngine } from './engine';
+import { tagHashOf } from '../utils/tag-hash';
+
+import type * as T from '../types';
+import type { SearchParams } from './engine';
+
+const note = (content: string, extra: Partial<T.Note> = {}): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted: false,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: [],
+  ...extra,
+});
+
+const params = (extra: Partial<SearchParams> = {}): SearchParams => ({
+  openedTag: null,
+  searchQuery: '',
+  searchSortType: null,
+  showTrash: false,
+  sortType: 'modificationDate',
+  sortReversed: false,
+  ...extra,
+});
+
+const id = (name: string) => name as T.EntityId;
+
+describe('createSearchEngine', () => {
+  it('sorts pinned notes first', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('old'), note('old', { modificationDate: 1 }), '1');
+    engine.updateNote(id('new'), note('new', { modificationDate: 2 }), '1');
+    engine.updateNote(
+      id('pinned'),
+      note('pinned', { modificationDate: 0, systemTags: ['pinned'] }),
+      '1'
+    );
+
+    expect(engine.search(params())).toEqual([
+      id('pinned'),
+      id('new'),
+      id('old'),
+    ]);
+    expect(engine.search(params({ sortReversed: true }))).toEqual([
+      id('pinned'),
+      id('old'),
+      id('new'),
+    ]);
+  });
+
+  it('filters by trash and opened tag', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(
+      id('work'),
+      note('a', { tags: ['Work' as T.TagName] }),
+      '1'
+    );
+    engine.updateNote(id('home'), note('b'), '1');
+    engine.updateNote(id('trashed'), note('c', { deleted: true }), '1');
+
+    expect(
+      engine.search(params({ openedTag: tagHashOf('work' as T.TagName) }))
+    ).toEqual([id('work')]);
+    expect(engine.search(params({ showTrash: true }))).toEqual([id('trashed')]);
+  });
+
+  it('matches nested tags with their ancestors', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(
+      id('client'),
+      note('a', { tags: ['Work/ClientA' as T.TagName] }),
+      '1'
+    );
+    engine.updateNote(
+      id('work'),
+      note('b', { tags: ['work' as T.TagName] }),
+      '1'
+    );
+    engine.updateNote(
+      id('other'),
+      note('c', { tags: ['workshop' as T.TagName] }),
+      '1'
+    );
+
+    expect(
+      engine.search(params({ openedTag: tagHashOf('work' as T.TagName) }))
+    ).toEqual([id('client'), id('work')]);
+    expect(engine.search(params({ searchQuery: 'tag:work' }))).toEqual([
+      id('client'),
+      id('work'),
+    ]);
+    expect(engine.search(params({ searchQuery: 'tag:work/clienta' }))).toEqual([
+      id('client'),
+    ]);
+  });
+
+  it('matches parts of words and negated terms', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('cat'), note('concatenate'), '1');
+    engine.updateNote(id('dog'), note('dog house'), '1');
+
+    expect(engine.search(params({ searchQuery: 'cat' }))).toEqual([id('cat')]);
+    expect(engine.search(params({ searchQuery: '-cat' }))).toEqual([id('dog')]);
+    expect(engine.search(params({ searchQuery: 'cat OR house' }))).toEqual([
+      id('cat'),
+      id('dog'),
+    ]);
+  });
+
+  it('matches regardless of accents and character width', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('cafe'), note('Café in 東京都'), '1');
+    engine.updateNote(id('other'), note('京都'), '1');
+
+    expect(engine.search(params({ searchQuery: 'cafe' }))).toEqual([
+      id('cafe'),
+    ]);
+    expect(engine.search(params({ searchQuery: 'ＣＡＦÉ' }))).toEqual([
+      id('cafe'),
+    ]);
+    expect(engine.search(params({ searchQuery: '東京' }))).toEqual([
+      id('cafe'),
+    ]);
+  });
+
+  it('reflects updated and removed notes', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('a'), note('cat'), '1');
+    engine.updateNote(id('b'), note('cat'), '1');
+
+    engine.updateNote(id('a'), note('dog'), '1');
+    engine.removeNote(id('b'));
+
+    expect(engine.search(params({ searchQuery: 'cat' }))).toEqual([]);
+    expect(engine.search(params({ searchQuery: 'dog' }))).toEqual([id('a')]);
+  });
+
+  it('sorts by relevance while searching', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(
+      id('body'),
+      note('notes\ninvoice', { creationDate: 2 }),
+      '1'
+    );
+    engine.updateNote(id('title'), note('invoice\nnotes'), '1');
+
+    expect(
+      engine.search(
+        params({ searchQuery: 'invoice', searchSortType: 'relevance' })
+      )
+    ).toEqual([id('title'), id('body')]);
+  });
+
+  it('counts matches outside of the trash', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('a'), note('cat', { systemTags: ['pinned'] }), '1');
+    engine.updateNote(id('b'), note('cat'), '1');
+    engine.updateNote(id('c'), note('cat', { deleted: true }), '1');
+
+    expect(engine.count('cat')).toBe(2);
+    expect(engine.count('dog')).toBe(0);
+  });
+
+  it('searches earlier revisions in history', () => {
+    const engine = createSearchEngine();
+    engine.updateNote(id('a'), note('now'), '1');
+    engine.updateNote(id('b'), note('lost words'), '1');
+    engine.updateRevisions(id('a'), [
+      [1, ''],
+      [2, 'lost words'],
+      [3, 'lost'],
+    ]);
+
+    const searchQuery = 'in:history lost';
+    const noteIds = engine.search(params({ searchQuery }));
+
+    expect(noteIds).toEqual([id('a')]);
+    expect(engine.revisionMatches(searchQuery, noteIds)).toEqual([
+      [id('a'), [2, 3]],
+    ]);
+    expect(engine.revisionMatches('lost', noteIds)).toEqual([]);
+    expect(engine.search(params({ searchQuery: 'lost' }))).toEqual([id('b')]);
+  });
+
+  describe('loadNotes', () => {
+    it('reuses saved entries for unchanged notes', () => {
+      const engine = createSearchEngine();
+      const savedIndex = new Map([
+        [id('a'), { version: '1', tokens: ['saved'] }],
+      ]);
+
+      const reindexed = engine.loadNotes(
+        [
+          [id('a'), note('saved'), '1'],
+          [id('b'), note('fresh'), '1'],
+        ],
+        savedIndex
+      );
+
+      expect(reindexed).toEqual([id('b')]);
+      expect(engine.indexEntry(id('a'))).toEqual({
+        version: '1',
+        tokens: ['saved'],
+      });
+    });
+
+    it('indexes notes again when their version changed', () => {
+      const engine = createSearchEngine();
+      const savedIndex = new Map([
+        [id('a'), { version: '1', tokens: ['old'] }],
+      ]);
+
+      const reindexed = engine.loadNotes(
+        [[id('a'), note('edited offline'), '2']],
+        savedIndex
+      );
+
+      expect(reindexed).toEqual([id('a')]);
+      expect(engine.search(params({ searchQuery: 'edited' }))).toEqual([
+        id('a'),
+      ]);
+      expect(engine.indexEntry(id('a'))).toEqual({
+        version: '2',
+        tokens: ['edited', 'offline'],
+      });
+    });
+
+    it('sorts every loaded note', () => {
+      const engine = createSearchEngine();
+
+      engine.loadNotes(
+        [
+          [id('old'), note('a', { modificationDate: 1 }), '1'],
+          [id('new'), note('b', { modificationDate: 2 }), '1'],
+        ],
+        new Map()
+      );
+
+      expect(engine.search(params())).toEqual([id('new'), id('old')]);
+      expect(engine.search(params({ sortType: 'alphabetical' }))).toEqual([
+        id('old'),
+        id('new'),
+      ]);
+    });
+
+    it('sorts changed notes into the saved sort orders', () => {
+      const saved = createSearchEngine();
+      saved.loadNotes(
+        [
+          [id('b'), note('b', { modificationDate: 2 }), '1'],
+          [id('d'), note('d', { modificationDate: 4 }), '1'],
+        ],
+        new Map()
+      );
+
+      const engine = createSearchEngine();
+      engine.loadNotes(
+        [
+          [id('a'), note('a', { modificationDate: 1 }), '1'],
+          [id('b'), note('b', { modificationDate: 2 }), '1'],
+          [id('c'), note('c', { modificationDate: 3 }), '1'],
+          [id('d'), note('d', { modificationDate: 4 }), '1'],
+        ],
+        new Map([
+          [id('b'), saved.indexEntry(id('b'))!],
+          [id('d'), saved.indexEntry(id('d'))!],
+        ]),
+        saved.sortOrders()
+      );
+
+      expect(engine.search(params())).toEqual([
+        id('d'),
+        id('c'),
+        id('b'),
+        id('a'),
+      ]);
+    });
+
+    it('sorts again when the saved order no longer holds', () => {
+      const engine = createSearchEngine();
+      engine.loadNotes(
+        [
+          [id('a'), note('a', { systemTags: ['pinned'] }), '1'],
+          [id('b'), note('b'), '1'],
+        ],
+        new Map([
+          [id('a'), { version: '1', tokens: ['a'] }],
+          [id('b'), { version: '1', tokens: ['b'] }],
+        ]),
+        [
+          [id('b'), id('a')],
+          [id('b'), id('a')],
+          [id('b'), id('a')],
+        ]
+      );
+
+      expect(engine.search(params())).toEqual([id('a'), id('b')]);
+    });
+  });
+});
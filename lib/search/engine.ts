@@ -0,0 +1,609 @@
+import { foldText } from './fold-text';
+import { scoreNote } from './relevance';
+import { TextIndex } from './text-index';
+import { getTerms, parseQuery, searchesHistory } from '../utils/filter-notes';
+import isEmailTag from '../utils/is-email-tag';
+import {
+  isTagOrDescendant,
+  tagHashOf as t,
+  tagNameOf,
+} from '../utils/tag-hash';
+
+import type * as T from '../types';
+import type { QueryNode } from '../utils/filter-notes';
+
+type SearchNote = {
+  content: string;
+  casedContent: string;
+  tags: Set<T.TagHash>;
+  creationDate: number;
+  modificationDate: number;
+  isMarkdown: boolean;
+  isPinned: boolean;
+  isPublished: boolean;
+  isShared: boolean;
+  isTrashed: boolean;
+  version: string;
+};
+
+/**
+ * What gets saved of each note's search index between sessions
+ *
+ * The version identifies the note contents which were indexed;
+ * when it no longer matches the note has to be indexed again.
+ */
+export type SearchIndexEntry = {
+  version: string;
+  tokens: string[];
+};
+
+/**
+ * Everything outside of the notes themselves which decides
+ * which notes appear in the note list and in what order
+ */
+export type SearchParams = {
+  openedTag: T.TagHash | null;
+  searchQuery: string;
+  searchSortType: T.SortType | null;
+  showTrash: boolean;
+  sortType: T.SortType;
+  sortReversed: boolean;
+};
+
+export type SearchEngine = {
+  count: (searchQuery: string) => number;
+  find: (searchQuery: string) => T.EntityId[];
+  indexEntry: (noteId: T.EntityId) => SearchIndexEntry | null;
+  loadNotes: (
+    notes: [T.EntityId, T.Note, string][],
+    savedIndex: Map<T.EntityId, SearchIndexEntry>,
+    savedSortOrders?: T.EntityId[][] | null
+  ) => T.EntityId[];
+  removeNote: (noteId: T.EntityId) => void;
+  revisionMatches: (
+    searchQuery: string,
+    noteIds: T.EntityId[]
+  ) => [T.EntityId, number[]][];
+  search: (params: SearchParams) => T.EntityId[];
+  sortOrders: () => T.EntityId[][];
+  updateNote: (
+    noteId: T.EntityId,
+    note: Partial<T.Note>,
+    version: string
+  ) => void;
+  updateRevisions: (noteId: T.EntityId, revisions: [number, string][]) => void;
+};
+
+const toSearchNote = (note: Partial<T.Note>, version: string): SearchNote => ({
+  content: foldText(note.content ?? ''),
+  casedContent: note.content ?? '',
+  tags: new Set(note.tags?.map(t) ?? []),
+  creationDate: note.creationDate ?? Date.now() / 1000,
+  modificationDate: note.modificationDate ?? Date.now() / 1000,
+  isMarkdown: note.systemTags?.includes('markdown') ?? false,
+  isPinned: note.systemTags?.includes('pinned') ?? false,
+  isPublished: note.systemTags?.includes('published') ?? false,
+  isShared: note.systemTags?.includes('shared') ?? false,
+  isTrashed: !!note.deleted ?? false,
+  version,
+});
+
+/**
+ * Folds the text terms in a query the same way as note content
+ *
+ * @param node parsed query
+ * @returns query whose terms can be compared with folded content
+ */
+const foldQuery = (node: QueryNode): QueryNode => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(foldQuery) };
+
+    case 'not':
+      return { ...node, child: foldQuery(node.child) };
+
+    case 'term':
+      return { ...node, value: foldText(node.value) };
+
+    default:
+      return node;
+  }
+};
+
+// nested tags count as their ancestors too, so `tag:work` finds `work/clientA`
+const hasTag = (tags: Set<T.TagHash>, tagHash: T.TagHash): boolean =>
+  tags.has(tagHash) ||
+  [...tags].some((noteTag) => isTagOrDescendant(noteTag, tagHash));
+
+const checklistPattern = /^\s*(?:[-+*\u2022]\s)?- \[( |x|X)\]\s/m;
+const uncheckedPattern = /^\s*(?:[-+*\u2022]\s)?- \[ \]\s/m;
+
+const matchesQuery = (note: SearchNote, node: QueryNode): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(note, child));
+
+    case 'or':
+      return node.children.some((child) => matchesQuery(note, child));
+
+    case 'not':
+      return !matchesQuery(note, node.child);
+
+    case 'tag':
+      return hasTag(note.tags, t(node.tagName));
+
+    case 'term':
+      return note.content.includes(node.value);
+
+    case 'date':
+      return note[node.field] >= node.after && note[node.field] < node.before;
+
+    case 'is':
+      // notes shared with collaborators carry their email addresses as tags
+      return 'shared' === node.flag
+        ? note.isShared ||
+            [...note.tags].some((tagHash) => isEmailTag(tagNameOf(tagHash)))
+        : 'markdown' === node.flag
+        ? note.isMarkdown
+        : 'pinned' === node.flag
+        ? note.isPinned
+        : note.isPublished;
+
+    case 'has':
+      return 'checklist' === node.feature
+        ? checklistPattern.test(note.casedContent)
+        : uncheckedPattern.test(note.casedContent);
+
+    // this changes what gets searched rather than matching anything
+    case 'in':
+      return true;
+  }
+};
+
+/**
+ * Narrows down which notes could match a query using the text index
+ *
+ * @param textIndex index of note content
+ * @param node query to match
+ * @returns notes which might match or null if every note might
+ */
+const candidatesFor = (
+  textIndex: TextIndex,
+  node: QueryNode
+): Set<T.EntityId> | null => {
+  switch (node.type) {
+    case 'and': {
+      const narrowed = node.children
+        .map((child) => candidatesFor(textIndex, child))
+        .filter((noteIds): noteIds is Set<T.EntityId> => noteIds !== null)
+        .sort((a, b) => a.size - b.size);
+
+      if (narrowed.length === 0) {
+        return null;
+      }
+
+      const [smallest, ...others] = narrowed;
+      return new Set(
+        [...smallest].filter((noteId) =>
+          others.every((noteIds) => noteIds.has(noteId))
+        )
+      );
+    }
+
+    case 'or': {
+      const found = new Set<T.EntityId>();
+      for (const child of node.children) {
+        const noteIds = candidatesFor(textIndex, child);
+        if (!noteIds) {
+          return null;
+        }
+        noteIds.forEach((noteId) => found.add(noteId));
+      }
+      return found;
+    }
+
+    case 'term':
+      return textIndex.candidates(node.value);
+
+    // negations and qualifiers aren't about the note text
+    default:
+      return null;
+  }
+};
+
+/**
+ * Merges two lists which are each sorted already
+ *
+ * @param a sorted list
+ * @param b sorted list
+ * @param compare order of both lists
+ * @returns every item of both lists, sorted
+ */
+const mergeSorted = <U>(
+  a: U[],
+  b: U[],
+  compare: (x: U, y: U) => number
+): U[] => {
+  const merged: U[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    merged.push(compare(a[i], b[j]) <= 0 ? a[i++] : b[j++]);
+  }
+  while (i < a.length) {
+    merged.push(a[i++]);
+  }
+  while (j < b.length) {
+    merged.push(b[j++]);
+  }
+
+  return merged;
+};
+
+/**
+ * Creates the indexes which answer searches over a set of notes
+ *
+ * This holds a copy of every note, so it lives in the search
+ * worker and the rest of the app only ever sees note ids.
+ *
+ * @returns functions to keep the notes current and search them
+ */
+export const createSearchEngine = (): SearchEngine => {
+  const notes = new Map<T.EntityId, SearchNote>();
+
+  const indexAlphabetical: T.EntityId[] = [];
+  const indexCreationDate: T.EntityId[] = [];
+  const indexModification: T.EntityId[] = [];
+  const textIndex = new TextIndex();
+
+  // folded content of the earlier revisions of each note, by version
+  const revisions = new Map<T.EntityId, Map<number, string>>();
+
+  type Comparator<U> = (a: U, b: U) => number;
+
+  const compareWith = (
+    compare: Comparator<SearchNote>
+  ): Comparator<T.EntityId> => (a: T.EntityId, b: T.EntityId) => {
+    const noteA = notes.get(a);
+    const noteB = notes.get(b);
+
+    if (!noteA || !noteB) {
+      return a.localeCompare(b);
+    }
+
+    if (noteA.isPinned !== noteB.isPinned) {
+      return noteA.isPinned ? -1 : 1;
+    }
+
+    const comparison = compare(noteA, noteB);
+
+    return comparison !== 0 ? comparison : a.localeCompare(b);
+  };
+
+  const sortIndexes: [T.EntityId[], Comparator<T.EntityId>][] = [
+    [
+      indexAlphabetical,
+      compareWith((a, b) => a.casedContent.localeCompare(b.casedContent)),
+    ],
+    [indexCreationDate, compareWith((a, b) => b.creationDate - a.creationDate)],
+    [
+      indexModification,
+      compareWith((a, b) => b.modificationDate - a.modificationDate),
+    ],
+  ];
+
+  const indexNote = (noteId: T.EntityId): void => {
+    const findSpot = (
+      index: T.EntityId[],
+      id: T.EntityId,
+      compare: Comparator<T.EntityId>,
+      start: number,
+      end: number
+    ): number => {
+      if (start >= end) {
+        return start;
+      }
+
+      const midPoint = Math.floor((start + end) / 2);
+      const comparison = compare(id, index[midPoint]);
+
+      if (comparison < 0) {
+        return findSpot(index, id, compare, start, midPoint);
+      }
+
+      if (comparison > 0) {
+        return findSpot(index, id, compare, midPoint + 1, end);
+      }
+
+      return midPoint;
+    };
+
+    sortIndexes.forEach(([index, compare]) => {
+      const existingAt = index.indexOf(noteId);
+
+      // remove existing entry
+      if (existingAt > -1) {
+        index.splice(existingAt, 1);
+      }
+
+      const nextAt = findSpot(index, noteId, compare, 0, index.length);
+      index.splice(nextAt, 0, noteId);
+    });
+  };
+
+  const removeNote = (noteId: T.EntityId) => {
+    notes.delete(noteId);
+    revisions.delete(noteId);
+    textIndex.delete(noteId);
+
+    ([
+      indexAlphabetical,
+      indexCreationDate,
+      indexModification,
+    ] as T.EntityId[][]).forEach((index) => {
+      const at = index.indexOf(noteId);
+      if (at > -1) {
+        index.splice(at, 1);
+      }
+    });
+  };
+
+  const updateNote = (
+    noteId: T.EntityId,
+    note: Partial<T.Note>,
+    version: string
+  ) => {
+    const searchNote = toSearchNote(note, version);
+
+    notes.set(noteId, searchNote);
+    textIndex.set(noteId, searchNote.content);
+    indexNote(noteId);
+  };
+
+  const updateRevisions = (
+    noteId: T.EntityId,
+    noteRevisions: [number, string][]
+  ) => {
+    revisions.set(
+      noteId,
+      new Map(
+        noteRevisions.map(([version, content]) => [version, foldText(content)])
+      )
+    );
+  };
+
+  /**
+   * Finds which revisions of a note match a query
+   *
+   * Everything other than the text is still matched against the
+   * current note, so `tag:` or `is:` refer to how the note is now.
+   *
+   * @param noteId note whose revisions to search
+   * @param searchTree folded query
+   * @returns versions of the matching revisions, oldest first
+   */
+  const matchingVersions = (
+    noteId: T.EntityId,
+    searchTree: QueryNode
+  ): number[] => {
+    const note = notes.get(noteId);
+    const noteRevisions = revisions.get(noteId);
+    if (!note || !noteRevisions) {
+      return [];
+    }
+
+    const versions: number[] = [];
+    noteRevisions.forEach((content, version) => {
+      if (matchesQuery({ ...note, content }, searchTree)) {
+        versions.push(version);
+      }
+    });
+
+    return versions.sort((a, b) => a - b);
+  };
+
+  /**
+   * Indexes a whole account at once, reusing what was saved from before
+   *
+   * Unchanged notes keep their saved tokens and their place in the
+   * saved sort orders, so only changed notes get tokenized and sorted.
+   *
+   * @param noteList every note along with its version
+   * @param savedIndex index entries saved in an earlier session
+   * @param savedSortOrders sort orders saved along with the index entries
+   * @returns notes whose index entries are missing or out of date
+   */
+  const loadNotes = (
+    noteList: [T.EntityId, T.Note, string][],
+    savedIndex: Map<T.EntityId, SearchIndexEntry>,
+    savedSortOrders: T.EntityId[][] | null = null
+  ): T.EntityId[] => {
+    const reindexed: T.EntityId[] = [];
+    const unchanged = new Set<T.EntityId>();
+
+    noteList.forEach(([noteId, note, version]) => {
+      const searchNote = toSearchNote(note, version);
+      const saved = savedIndex.get(noteId);
+
+      notes.set(noteId, searchNote);
+      if (saved?.version === version) {
+        textIndex.setTokens(noteId, new Set(saved.tokens));
+        unchanged.add(noteId);
+      } else {
+        textIndex.set(noteId, searchNote.content);
+        reindexed.push(noteId);
+      }
+    });
+
+    sortIndexes.forEach(([index, compare], at) => {
+      // checking that the saved order still holds, e.g. that nothing
+      // was pinned in the meantime, takes far fewer comparisons than
+      // sorting; if it doesn't hold everything gets sorted again
+      const saved = (savedSortOrders?.[at] ?? []).filter((noteId) =>
+        unchanged.has(noteId)
+      );
+      const kept = saved.every(
+        (noteId, i) => i === 0 || compare(saved[i - 1], noteId) <= 0
+      )
+        ? saved
+        : [];
+
+      const keptIds = new Set(kept);
+      const sorted: T.EntityId[] = [];
+      notes.forEach((note, noteId) => {
+        if (!keptIds.has(noteId)) {
+          sorted.push(noteId);
+        }
+      });
+      sorted.sort(compare);
+
+      index.length = 0;
+      mergeSorted(kept, sorted, compare).forEach((noteId) =>
+        index.push(noteId)
+      );
+    });
+
+    return reindexed;
+  };
+
+  const sortOrders = (): T.EntityId[][] =>
+    sortIndexes.map(([index]) => [...index]);
+
+  const indexEntry = (noteId: T.EntityId): SearchIndexEntry | null => {
+    const note = notes.get(noteId);
+    const tokens = textIndex.noteTokens.get(noteId);
+
+    return note && tokens
+      ? { version: note.version, tokens: [...tokens] }
+      : null;
+  };
+
+  const search = ({
+    openedTag,
+    searchQuery,
+    searchSortType,
+    showTrash,
+    sortReversed,
+    ...params
+  }: SearchParams): T.EntityId[] => {
+    const sortType = searchSortType ?? params.sortType;
+    const searchTree = foldQuery(parseQuery(searchQuery));
+    const matches = new Set<T.EntityId>();
+    const pinnedMatches = new Set<T.EntityId>();
+    const inHistory = searchesHistory(searchTree);
+
+    // only the current content of each note is in the text index
+    const candidates = inHistory ? null : candidatesFor(textIndex, searchTree);
+
+    const sortIndex =
+      sortType === 'alphabetical'
+        ? indexAlphabetical
+        : sortType === 'creationDate'
+        ? indexCreationDate
+        : indexModification;
+
+    for (let i = 0; i < sortIndex.length; i++) {
+      const noteId = sortIndex[sortReversed ? sortIndex.length - i - 1 : i];
+      if (candidates && !candidates.has(noteId)) {
+        continue;
+      }
+
+      const note = notes.get(noteId);
+
+      if (!note) {
+        continue;
+      }
+
+      if (showTrash !== note.isTrashed) {
+        continue;
+      }
+
+      if (openedTag && !hasTag(note.tags, openedTag)) {
+        continue;
+      }
+
+      if (
+        inHistory
+          ? matchingVersions(noteId, searchTree).length === 0
+          : !matchesQuery(note, searchTree)
+      ) {
+        continue;
+      }
+
+      if (note.isPinned) {
+        pinnedMatches.add(noteId);
+      } else {
+        matches.add(noteId);
+      }
+    }
+
+    if ('relevance' !== sortType) {
+      return [...pinnedMatches.values(), ...matches.values()];
+    }
+
+    // we walked the notes in modification order above, so since
+    // sorting is stable that's how notes with equal scores end up
+    const searchTerms = getTerms(searchQuery).map(foldText);
+    const now = Date.now() / 1000;
+    const scores = new Map<T.EntityId, number>();
+    [...pinnedMatches, ...matches].forEach((noteId) => {
+      const note = notes.get(noteId)!;
+      scores.set(
+        noteId,
+        scoreNote(note.content, searchTerms, note.modificationDate, now)
+      );
+    });
+
+    const byRelevance = (a: T.EntityId, b: T.EntityId) =>
+      (sortReversed ? -1 : 1) * (scores.get(b)! - scores.get(a)!);
+
+    return [
+      ...[...pinnedMatches].sort(byRelevance),
+      ...[...matches].sort(byRelevance),
+    ];
+  };
+
+  // finds notes outside of any view; the order doesn't matter so skip relevance
+  const find = (searchQuery: string): T.EntityId[] =>
+    search({
+      openedTag: null,
+      searchQuery,
+      searchSortType: null,
+      showTrash: false,
+      sortType: 'modificationDate',
+      sortReversed: false,
+    });
+
+  const count = (searchQuery: string): number => find(searchQuery).length;
+
+  // which revisions put each note into the results of a history search
+  const revisionMatches = (
+    searchQuery: string,
+    noteIds: T.EntityId[]
+  ): [T.EntityId, number[]][] => {
+    const searchTree = foldQuery(parseQuery(searchQuery));
+    if (!searchesHistory(searchTree)) {
+      return [];
+    }
+
+    return noteIds.map((noteId) => [
+      noteId,
+      matchingVersions(noteId, searchTree),
+    ]);
+  };
+
+  return {
+    count,
+    find,
+    indexEntry,
+    loadNotes,
+    removeNote,
+    revisionMatches,
+    search,
+    sortOrders,
+    updateNote,
+    updateRevisions,
+  };
+};
@@ -0,0 +1,40 @@
+import { findMatches, foldText } from './fold-text';
+
+describe('foldText', () => {
+  it('removes diacritics', () => {
+    expect(foldText('Café Crème à la Ñandú')).toBe('cafe creme a la nandu');
+  });
+
+  it('folds letters without decompositions', () => {
+    expect(foldText('Straße Ærø Łódź')).toBe('strasse aero lodz');
+  });
+
+  it('folds full-width and half-width forms', () => {
+    expect(foldText('ＡＢＣ１２３')).toBe('abc123');
+    expect(foldText('ｶﾞｷﾞ')).toBe('ガギ');
+  });
+
+  it('keeps the voicing marks on kana', () => {
+    expect(foldText('がっこう')).toBe('がっこう');
+  });
+});
+
+describe('findMatches', () => {
+  it('finds terms in the original text', () => {
+    expect(findMatches('Un Café, un cafe', ['cafe'])).toEqual([
+      [3, 7],
+      [12, 16],
+    ]);
+  });
+
+  it('includes marks and folded letters in the match', () => {
+    expect(findMatches('Cafe\u0301 Straße', ['café', 'strasse'])).toEqual([
+      [0, 5],
+      [6, 12],
+    ]);
+  });
+
+  it('merges overlapping matches', () => {
+    expect(findMatches('concatenate', ['cat', 'ten', 'zzz'])).toEqual([[3, 8]]);
+  });
+});
@@ -0,0 +1,113 @@
+// accents and other marks which decompose off of letters; the
+// Japanese voicing marks are outside of this and stay on their kana
+const combiningMarks = /[\u0300-\u036f]/g;
+
+// letters which don't decompose into a base letter and a mark
+const foldedLetters: { [letter: string]: string } = {
+  æ: 'ae',
+  đ: 'd',
+  ł: 'l',
+  ø: 'o',
+  œ: 'oe',
+  ß: 'ss',
+};
+const unfoldedLetters = /[æđłøœß]/g;
+
+/**
+ * Normalizes text so that searches match regardless of how it was typed
+ *
+ * Compatibility forms are folded into their usual ones, which turns
+ * full-width Latin letters and digits into their ASCII counterparts and
+ * half-width katakana into full-width. Diacritics are removed so that
+ * `cafe` finds `café`, and the result is lowercased.
+ *
+ * @param text note content or search term
+ * @returns folded text, which may differ in length from the original
+ */
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(combiningMarks, '')
+    .normalize('NFC')
+    .toLocaleLowerCase()
+    .replace(unfoldedLetters, (letter) => foldedLetters[letter]);
+
+// notes are written with few distinct characters, so
+// each of them only needs to be folded the first time
+const foldedChars = new Map<string, string>();
+
+const foldChar = (char: string): string => {
+  let folded = foldedChars.get(char);
+  if ('undefined' === typeof folded) {
+    folded = foldText(char);
+    foldedChars.set(char, folded);
+  }
+  return folded;
+};
+
+/**
+ * Finds where search terms appear in text the same way searches match them
+ *
+ * Folding can change the length of text, so to report the matches
+ * in the original text this maps each folded character back to where
+ * it came from. Most text doesn't match at all, which folding it
+ * once as a whole rules out before building that map.
+ *
+ * @param text original text, e.g. a line of a note
+ * @param terms search terms as they were typed
+ * @returns sorted, non-overlapping [start, end) ranges in the text
+ */
+export const findMatches = (
+  text: string,
+  terms: string[]
+): [number, number][] => {
+  const foldedTerms = terms.map(foldText).filter((term) => term.length > 0);
+  const foldedText = foldText(text);
+  if (!foldedTerms.some((term) => foldedText.includes(term))) {
+    return [];
+  }
+
+  let folded = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  let at = 0;
+  for (const char of text) {
+    const foldedChar = foldChar(char);
+
+    if (foldedChar.length === 0 && ends.length > 0) {
+      // a lone mark belongs to the character before it
+      ends[ends.length - 1] = at + char.length;
+    }
+
+    for (let i = 0; i < foldedChar.length; i++) {
+      starts.push(at);
+      ends.push(at + char.length);
+    }
+    folded += foldedChar;
+    at += char.length;
+  }
+
+  const ranges: [number, number][] = [];
+  foldedTerms.forEach((term) => {
+    let found = folded.indexOf(term);
+    while (found !== -1) {
+      ranges.push([starts[found], ends[found + term.length - 1]]);
+      found = folded.indexOf(term, found + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  return merged;
+};
@@ -1,253 +1,232 @@
+import SearchWorker from 'worker-loader!./search.worker';
 import { filterTags } from '../tag-suggestions';
-import { getTerms } from '../utils/filter-notes';
-import { tagHashOf as t } from '../utils/tag-hash';
+import { onStopSyncing } from '../state/persistence';
+import { parseQuery, searchesHistory } from '../utils/filter-notes';
+import { getSavedSearches } from '../state/selectors';
+import { searchSortReversed, searchSortType } from '../state/ui/reducer';
+import { renamedTagHash, tagHashOf as t } from '../utils/tag-hash';
 
 import type * as A from '../state/action-types';
 import type * as S from '../state';
 import type * as T from '../types';
+import type { SearchParams } from './engine';
+import type { SearchWorkerMessage, SearchWorkerResult } from './search.worker';
 
 const emptyList = [] as unknown[];
 
-// @TODO: Refactor search state into Redux for access
-//        and to prevent needing to recalculate separately
-type SearchNote = {
-  content: string;
-  casedContent: string;
-  tags: Set<T.TagHash>;
-  creationDate: number;
-  modificationDate: number;
-  isPinned: boolean;
-  isTrashed: boolean;
-};
-
-type SearchState = {
+// The notes and their indexes live in a worker so that searching
+// large accounts never blocks typing; only note ids come back here
+type SearchState = SearchParams & {
   hasSelectedFirstNote: boolean;
-  notes: Map<T.EntityId, SearchNote>;
-  openedTag: T.TagHash | null;
-  searchQuery: string;
-  searchTags: Set<T.TagHash>;
-  searchTerms: string[];
-  showTrash: boolean;
-  sortType: T.SortType;
-  sortReversed: boolean;
-};
-
-const toSearchNote = (note: Partial<T.Note>): SearchNote => ({
-  content: note.content?.toLocaleLowerCase() ?? '',
-  casedContent: note.content ?? '',
-  tags: new Set(note.tags?.map(t) ?? []),
-  creationDate: note.creationDate ?? Date.now() / 1000,
-  modificationDate: note.modificationDate ?? Date.now() / 1000,
-  isPinned: note.systemTags?.includes('pinned') ?? false,
-  isTrashed: !!note.deleted ?? false,
-});
-
-const tagsFromSearch = (query: string) => {
-  const tagPattern = /(?:\btag:)([^\s,]+)/g;
-  const searchTags = new Set<T.TagHash>();
-  let match;
-  while ((match = tagPattern.exec(query)) !== null) {
-    searchTags.add(t(match[1] as T.TagName));
-  }
-  return searchTags;
+  latestSearchId: number;
+  searchSortReversed: boolean | null;
+  shouldOpenFirstNote: boolean;
 };
 
 export const middleware: S.Middleware = (store) => {
   const searchState: SearchState = {
     hasSelectedFirstNote: false,
-    notes: new Map(),
+    latestSearchId: 0,
     openedTag: null,
     searchQuery: '',
-    searchTags: new Set(),
-    searchTerms: [],
+    searchSortReversed: null,
+    searchSortType: null,
+    shouldOpenFirstNote: false,
     showTrash: false,
     sortType: store.getState().settings.sortType,
     sortReversed: store.getState().settings.sortReversed,
   };
 
-  const indexAlphabetical: T.EntityId[] = [];
-  const indexCreationDate: T.EntityId[] = [];
-  const indexModification: T.EntityId[] = [];
+  const worker = new SearchWorker();
+  const send = (message: SearchWorkerMessage) => worker.postMessage(message);
 
-  type Comparator<U> = (a: U, b: U) => number;
-
-  const indexNote = (noteId: T.EntityId): void => {
-    const compareWith = (
-      compare: Comparator<SearchNote>
-    ): Comparator<T.EntityId> => (a: T.EntityId, b: T.EntityId) => {
-      const noteA = searchState.notes.get(a);
-      const noteB = searchState.notes.get(b);
+  if ('production' !== process.env.NODE_ENV) {
+    window.searchState = searchState;
+  }
 
-      if (!noteA || !noteB) {
-        return a.localeCompare(b);
-      }
+  // the index stays saved after signing out unless we stop it
+  onStopSyncing(() => worker.terminate());
+
+  /**
+   * Gathers notes to send to the worker
+   *
+   * Notes get a version for their saved search index entries. The
+   * synced version alone isn't enough since it stays the same while
+   * notes are edited offline, which is why the note's modification
+   * date is part of it too.
+   *
+   * @param noteIds which notes to gather
+   * @returns notes along with their versions
+   */
+  const withVersions = (
+    noteIds: Iterable<T.EntityId>
+  ): [T.EntityId, T.Note, string][] => {
+    const {
+      data: { notes },
+      simperium: { ghosts },
+    } = store.getState();
+    const noteGhosts = ghosts[1].get('note');
+    const versioned: [T.EntityId, T.Note, string][] = [];
 
-      if (noteA.isPinned !== noteB.isPinned) {
-        return noteA.isPinned ? -1 : 1;
+    for (const noteId of noteIds) {
+      const note = notes.get(noteId);
+      if (note) {
+        const syncedVersion = noteGhosts?.get(noteId)?.version ?? 0;
+        versioned.push([
+          noteId,
+          note,
+          `${syncedVersion}:${note.modificationDate}`,
+        ]);
       }
+    }
 
-      const comparison = compare(noteA, noteB);
-
-      return comparison !== 0 ? comparison : a.localeCompare(b);
-    };
+    return versioned;
+  };
 
-    const alphabetical = compareWith((a, b) =>
-      a.casedContent.localeCompare(b.casedContent)
-    );
-    const creationDate = compareWith((a, b) => b.creationDate - a.creationDate);
-    const modification = compareWith(
-      (a, b) => b.modificationDate - a.modificationDate
-    );
+  let countTimer: ReturnType<typeof setTimeout> | null = null;
 
-    const findSpot = (
-      index: T.EntityId[],
-      id: T.EntityId,
-      compare: Comparator<T.EntityId>,
-      start: number,
-      end: number
-    ): number => {
-      if (start >= end) {
-        return start;
-      }
+  // saved search counts only need to follow along, not keep up
+  const queueCounts = () => {
+    clearTimeout(countTimer!);
 
-      const midPoint = Math.floor((start + end) / 2);
-      const comparison = compare(id, index[midPoint]);
+    countTimer = setTimeout(() => {
+      const state = store.getState();
+      const queries = getSavedSearches(state).map(({ query }) => query);
 
-      if (comparison < 0) {
-        return findSpot(index, id, compare, start, midPoint);
+      if (queries.length > 0 || state.ui.savedSearchCounts.size > 0) {
+        send({ type: 'count', queries });
       }
+    }, 500);
+  };
 
-      if (comparison > 0) {
-        return findSpot(index, id, compare, midPoint + 1, end);
-      }
+  const updateNotes = (noteIds: T.EntityId[]) => {
+    const updated = withVersions(noteIds);
 
-      return midPoint;
-    };
+    if (updated.length > 0) {
+      send({ type: 'updateNotes', notes: updated });
+      queueCounts();
+    }
+  };
 
-    ([
-      [indexAlphabetical, alphabetical],
-      [indexCreationDate, creationDate],
-      [indexModification, modification],
-    ] as [T.EntityId[], Comparator<T.EntityId>][]).forEach(
-      ([index, compare]) => {
-        const existingAt = index.indexOf(noteId);
-
-        // remove existing entry
-        if (existingAt > -1) {
-          index.splice(existingAt, 1);
-        }
+  const removeNote = (noteId: T.EntityId) => {
+    send({ type: 'removeNote', noteId });
+    queueCounts();
+  };
 
-        const nextAt = findSpot(index, noteId, compare, 0, index.length);
-        index.splice(nextAt, 0, noteId);
-      }
-    );
+  const updateRevisions = (noteId: T.EntityId) => {
+    const noteRevisions = store.getState().data.noteRevisions.get(noteId);
+
+    if (noteRevisions) {
+      send({
+        type: 'updateRevisions',
+        noteId,
+        revisions: [...noteRevisions].map(([version, note]) => [
+          version,
+          note.content,
+        ]),
+      });
+    }
   };
 
-  const removeNoteFromIndex = (noteId: T.EntityId) => {
-    ([
-      indexAlphabetical,
-      indexCreationDate,
-      indexModification,
-    ] as T.EntityId[][]).forEach((index) => {
-      const at = index.indexOf(noteId);
-      if (at > -1) {
-        index.splice(at, 1);
+  const notesTagged = (tagHash: T.TagHash): T.EntityId[] => {
+    const noteIds: T.EntityId[] = [];
+
+    store.getState().data.notes.forEach((note, noteId) => {
+      if (note.tags.some((tagName) => t(tagName) === tagHash)) {
+        noteIds.push(noteId);
       }
     });
+
+    return noteIds;
   };
 
-  if ('production' !== process.env.NODE_ENV) {
-    window.indexAlphabetical = indexAlphabetical;
-    window.indexCreationDate = indexCreationDate;
-    window.indexModification = indexModification;
-    window.searchState = searchState;
-  }
+  const getTagSuggestions = (): T.TagHash[] => {
+    const { data } = store.getState();
 
-  const runSearch = (): T.EntityId[] => {
-    const {
-      notes,
-      openedTag,
-      searchTags,
-      searchTerms,
-      sortReversed,
-      sortType,
-      showTrash,
-    } = searchState;
-    const matches = new Set<T.EntityId>();
-    const pinnedMatches = new Set<T.EntityId>();
-
-    const sortIndex =
-      sortType === 'alphabetical'
-        ? indexAlphabetical
-        : sortType === 'creationDate'
-        ? indexCreationDate
-        : indexModification;
-
-    for (let i = 0; i < sortIndex.length; i++) {
-      const noteId = sortIndex[sortReversed ? sortIndex.length - i - 1 : i];
-      const note = notes.get(noteId);
+    const filteredTags = filterTags(
+      data.tags,
+      data.noteTags,
+      searchState.searchQuery
+    );
+    return filteredTags.length > 0 ? filteredTags : (emptyList as T.TagHash[]);
+  };
 
-      if (!note) {
-        continue;
-      }
+  let searchTimer: ReturnType<typeof setTimeout> | null = null;
 
-      if (showTrash !== note.isTrashed) {
-        continue;
-      }
+  /**
+   * Asks the worker for new results for the current search
+   *
+   * Only the most recent request ever gets its results
+   * dispatched; anything older than that is already stale.
+   */
+  const search = () => {
+    clearTimeout(searchTimer!);
 
-      let hasAllTags = true;
-      for (const tagName of searchTags.values()) {
-        if (!note.tags.has(tagName)) {
-          hasAllTags = false;
-          break;
-        }
-      }
-      if (!hasAllTags) {
-        continue;
-      }
+    send({
+      type: 'search',
+      searchId: ++searchState.latestSearchId,
+      params: {
+        openedTag: searchState.openedTag,
+        searchQuery: searchState.searchQuery,
+        searchSortType: searchState.searchSortType,
+        showTrash: searchState.showTrash,
+        sortType: searchState.sortType,
+        sortReversed:
+          searchState.searchSortReversed ?? searchState.sortReversed,
+      },
+    });
+  };
 
-      if (openedTag && !note.tags.has(openedTag)) {
-        continue;
-      }
+  // coalesces bursts of note updates, e.g. while syncing
+  const queueSearch = () => {
+    clearTimeout(searchTimer!);
+    searchTimer = setTimeout(search, 30);
+  };
 
-      if (
-        searchTerms.length > 0 &&
-        !searchTerms.every((term) =>
-          note.content.includes(term.toLocaleLowerCase())
-        )
-      ) {
-        continue;
-      }
+  worker.addEventListener('message', (event: MessageEvent) => {
+    const result: SearchWorkerResult = event.data;
 
-      if (note.isPinned) {
-        pinnedMatches.add(noteId);
-      } else {
-        matches.add(noteId);
-      }
+    if ('counts' === result.type) {
+      store.dispatch({
+        type: 'SET_SAVED_SEARCH_COUNTS',
+        counts: new Map(result.counts),
+      });
+      return;
     }
 
-    return [...pinnedMatches.values(), ...matches.values()];
-  };
+    if ('found' === result.type) {
+      store.dispatch({ type: 'SET_FOUND_NOTES', noteIds: result.noteIds });
+      return;
+    }
 
-  const setFilteredNotes = (
-    noteIds: T.EntityId[]
-  ): { noteIds: T.EntityId[]; tagHashes: T.TagHash[] } => {
-    const { data } = store.getState();
-    const { searchQuery } = searchState;
+    const { searchId, noteIds } = result;
+    if (searchId !== searchState.latestSearchId) {
+      return;
+    }
 
-    const filteredTags = filterTags(data.tags, data.noteTags, searchQuery);
-    const tagSuggestions =
-      filteredTags.length > 0 ? filteredTags : (emptyList as T.TagHash[]);
+    const shouldOpenFirstNote =
+      searchState.shouldOpenFirstNote ||
+      (!searchState.hasSelectedFirstNote && noteIds.length > 0);
 
-    return { noteIds, tagHashes: tagSuggestions };
-  };
+    if (noteIds.length > 0) {
+      searchState.hasSelectedFirstNote = true;
+    }
+    searchState.shouldOpenFirstNote = false;
+
+    const searchResults = {
+      noteIds,
+      revisionMatches: new Map(result.revisionMatches),
+      tagHashes: getTagSuggestions(),
+    };
 
-  const withSearch = <T extends A.ActionType>(action: T): T => ({
-    ...action,
-    meta: {
-      ...action.meta,
-      searchResults: setFilteredNotes(runSearch()),
-    },
+    store.dispatch({
+      type: 'FILTER_NOTES',
+      ...searchResults,
+      meta: {
+        searchResults,
+        ...(shouldOpenFirstNote && { nextNoteToOpen: noteIds[0] ?? null }),
+      },
+    });
   });
 
   const withNextNote = <T extends A.ActionType>(
@@ -277,231 +256,208 @@ export const middleware: S.Middleware = (store) => {
     };
   };
 
-  let searchTimer: ReturnType<typeof setTimeout> | null = null;
-  const queueSearch = () => {
-    clearTimeout(searchTimer!);
-
-    searchTimer = setTimeout(() => {
-      const searchResults = setFilteredNotes(runSearch());
-
-      store.dispatch({
-        type: 'FILTER_NOTES',
-        ...searchResults,
-        meta: {
-          searchResults,
-        },
-      });
-    }, 30);
-  };
-
-  store.getState().data.notes.forEach((note, noteId) => {
-    searchState.notes.set(noteId, toSearchNote(note));
-    indexNote(noteId);
+  send({
+    type: 'loadNotes',
+    notes: withVersions(store.getState().data.notes.keys()),
   });
+  store
+    .getState()
+    .data.noteRevisions.forEach((revisions, noteId) => updateRevisions(noteId));
   queueSearch();
+  queueCounts();
 
-  return (rawNext) => (action: A.ActionType) => {
-    const next = (action: A.ActionType) => {
-      if (
-        !searchState.hasSelectedFirstNote &&
-        action.meta?.searchResults?.noteIds.length
-      ) {
-        searchState.hasSelectedFirstNote = true;
-        return rawNext({
-          ...action,
-          meta: {
-            ...action.meta,
-            nextNoteToOpen: action.meta?.searchResults.noteIds[0],
-          },
-        });
-      }
-
-      return rawNext(action);
-    };
-
+  return (next) => (action: A.ActionType) => {
     switch (action.type) {
-      case 'ADD_NOTE_TAG': {
-        const note = searchState.notes.get(action.noteId);
-        if (!note) {
-          return next(action);
-        }
-
-        note.tags.add(t(action.tagName));
-        note.modificationDate = Date.now() / 1000;
-        indexNote(action.noteId);
-        return next(withSearch(action));
+      case 'ADD_COLLABORATOR':
+      case 'ADD_NOTE_TAG':
+      case 'EDIT_NOTE':
+      case 'MARKDOWN_NOTE':
+      case 'PIN_NOTE':
+      case 'PUBLISH_NOTE':
+      case 'REMOVE_COLLABORATOR':
+      case 'REMOVE_NOTE_TAG':
+      case 'RESTORE_NOTE_REVISION': {
+        const result = next(action);
+        updateNotes([action.noteId]);
+        search();
+        return result;
       }
 
       case 'CREATE_NOTE_WITH_ID':
       case 'IMPORT_NOTE_WITH_ID':
-      case 'REMOTE_NOTE_UPDATE':
-        searchState.notes.set(action.noteId, toSearchNote(action.note ?? {}));
-        indexNote(action.noteId);
+      case 'REMOTE_NOTE_UPDATE': {
+        const result = next(action);
+        updateNotes([action.noteId]);
         queueSearch();
-        return next(action);
+        return result;
+      }
+
+      case 'DELETE_SAVED_SEARCH':
+      case 'PREFERENCES_BUCKET_UPDATE':
+      case 'SAVE_SEARCH': {
+        const result = next(action);
+        queueCounts();
+        return result;
+      }
 
       case 'DELETE_NOTE_FOREVER':
-      case 'REMOTE_NOTE_DELETE_FOREVER':
-        searchState.notes.delete(action.noteId);
-        removeNoteFromIndex(action.noteId);
-        return next(withNextNote(action.noteId, withSearch(action)));
-
-      case 'EDIT_NOTE': {
-        const note = searchState.notes.get(action.noteId)!;
-        if ('undefined' !== typeof action.changes.content) {
-          note.content = action.changes.content.toLocaleLowerCase();
-          note.casedContent = action.changes.content;
-        }
-        if ('undefined' !== typeof action.changes.tags) {
-          note.tags = new Set(action.changes.tags.map(t));
-        }
-        if ('undefined' !== typeof action.changes.creationDate) {
-          note.creationDate = action.changes.creationDate;
-        }
+      case 'REMOTE_NOTE_DELETE_FOREVER': {
+        const result = next(withNextNote(action.noteId, action));
+        removeNote(action.noteId);
+        search();
+        return result;
+      }
 
-        note.modificationDate =
-          'undefined' !== typeof action.changes.modificationDate
-            ? action.changes.modificationDate
-            : Date.now() / 1000;
+      // searches outside of the note list, e.g. for find and replace
+      case 'FIND_NOTES':
+        send({ type: 'find', searchQuery: action.searchQuery });
+        return next(action);
 
-        if ('undefined' !== typeof action.changes.deleted) {
-          note.isTrashed = !!action.changes.deleted;
+      case 'LOAD_REVISIONS': {
+        const result = next(action);
+        updateRevisions(action.noteId);
+        if (searchesHistory(parseQuery(searchState.searchQuery))) {
+          queueSearch();
         }
-        if ('undefined' !== typeof action.changes.systemTags) {
-          note.isPinned = action.changes.systemTags.includes('pinned');
-        }
-        indexNote(action.noteId);
-        return next(withSearch(action));
+        return result;
       }
 
-      case 'OPEN_TAG':
-        searchState.openedTag = t(action.tagName);
-        return next(withSearch(action));
+      case 'MERGE_TAG': {
+        const fromHash = t(action.tagName);
+        const intoHash = t(action.intoTagName);
 
-      case 'PIN_NOTE': {
-        const note = searchState.notes.get(action.noteId);
-        if (!note) {
-          return next(action);
+        if (searchState.openedTag === fromHash) {
+          searchState.openedTag = intoHash;
         }
 
-        note.isPinned = action.shouldPin;
-        note.modificationDate = Date.now() / 1000;
-        indexNote(action.noteId);
-
-        return next(withSearch(action));
+        const result = next(action);
+        updateNotes(notesTagged(intoHash));
+        search();
+        return result;
       }
 
-      case 'REMOVE_NOTE_TAG': {
-        const note = searchState.notes.get(action.noteId);
-        if (!note) {
-          return next(action);
-        }
-
-        note.tags.delete(t(action.tagName));
-        note.modificationDate = Date.now() / 1000;
-        indexNote(action.noteId);
-
-        return next(withSearch(action));
-      }
+      case 'OPEN_TAG':
+        searchState.openedTag = t(action.tagName);
+        search();
+        return next(action);
 
       case 'RENAME_TAG': {
-        const oldHash = t(action.oldTagName);
         const newHash = t(action.newTagName);
 
-        if (searchState.openedTag === oldHash) {
-          searchState.openedTag = newHash;
+        if (searchState.openedTag) {
+          searchState.openedTag = renamedTagHash(
+            searchState.openedTag,
+            action.oldTagName,
+            action.newTagName
+          );
         }
 
-        searchState.notes.forEach((note, noteId) => {
-          if (!note.tags.has(oldHash)) {
-            return;
-          }
-
-          note.tags.delete(oldHash);
-          note.tags.add(newHash);
-          note.modificationDate = Date.now() / 1000;
-          indexNote(noteId);
-        });
-
-        return next(withSearch(action));
+        const result = next(action);
+        updateNotes(notesTagged(newHash));
+        search();
+        return result;
       }
 
-      case 'RESTORE_NOTE': {
-        const note = searchState.notes.get(action.noteId);
-        if (!note) {
-          return next(action);
-        }
-
-        note.isTrashed = false;
-        note.modificationDate = Date.now() / 1000;
-        indexNote(action.noteId);
-
-        return next(withNextNote(action.noteId, withSearch(action)));
+      case 'RESTORE_NOTE':
+      case 'TRASH_NOTE': {
+        const result = next(withNextNote(action.noteId, action));
+        updateNotes([action.noteId]);
+        search();
+        return result;
       }
 
       case 'SELECT_TRASH':
-        searchState.openedTag = null;
-        searchState.showTrash = true;
-        return next(withSearch(action));
-
       case 'SHOW_ALL_NOTES':
         searchState.openedTag = null;
-        searchState.showTrash = false;
-        return next(withSearch(action));
+        searchState.showTrash = 'SELECT_TRASH' === action.type;
+        searchState.shouldOpenFirstNote = true;
+        search();
+        return next(action);
 
       case 'SEARCH':
         searchState.searchQuery = action.searchQuery;
-        searchState.searchTerms = getTerms(action.searchQuery);
-        searchState.searchTags = tagsFromSearch(action.searchQuery);
-        return next(withSearch(action));
+        searchState.searchSortType = searchSortType(
+          searchState.searchSortType,
+          action
+        );
+        searchState.searchSortReversed = searchSortReversed(
+          searchState.searchSortReversed,
+          action
+        );
+        search();
+        return next(action);
+
+      case 'SET_SEARCH_SORT_REVERSED':
+        searchState.searchSortReversed = action.sortReversed;
+        search();
+        return next(action);
+
+      case 'SET_SEARCH_SORT_TYPE':
+        searchState.searchSortType = action.sortType;
+        search();
+        return next(action);
 
       case 'setSortReversed':
+        // a saved search's sort direction only lasts until the search ends
+        if (null !== searchState.searchSortReversed) {
+          searchState.searchSortReversed = action.sortReversed;
+          search();
+          return next({
+            type: 'SET_SEARCH_SORT_REVERSED',
+            sortReversed: action.sortReversed,
+          });
+        }
+
         searchState.sortReversed = action.sortReversed;
-        return next(withSearch(action));
+        search();
+        return next(action);
 
       case 'setSortType':
-        searchState.sortType = action.sortType;
-        return next(withSearch(action));
-
-      case 'TOGGLE_SORT_ORDER':
-        searchState.sortReversed = !searchState.sortReversed;
-        return next(withSearch(action));
+        // sort types picked while searching only last until the search ends
+        if (null !== searchState.searchSortType) {
+          searchState.searchSortType = action.sortType;
+          search();
+          return next({
+            type: 'SET_SEARCH_SORT_TYPE',
+            sortType: action.sortType,
+          });
+        }
 
-      case 'TRASH_NOTE': {
-        const note = searchState.notes.get(action.noteId);
-        if (!note) {
-          return next(action);
+        if ('relevance' !== action.sortType) {
+          searchState.sortType = action.sortType;
         }
+        search();
+        return next(action);
 
-        note.isTrashed = true;
-        note.modificationDate = Date.now() / 100;
-        indexNote(action.noteId);
+      case 'TOGGLE_SORT_ORDER':
+        if (null !== searchState.searchSortReversed) {
+          searchState.searchSortReversed = !searchState.searchSortReversed;
+          search();
+          return next({
+            type: 'SET_SEARCH_SORT_REVERSED',
+            sortReversed: searchState.searchSortReversed,
+          });
+        }
 
-        return next(withNextNote(action.noteId, withSearch(action)));
-      }
+        searchState.sortReversed = !searchState.sortReversed;
+        search();
+        return next(action);
 
       case 'TRASH_TAG': {
         const tagHash = t(action.tagName);
+        const trashed = notesTagged(tagHash);
 
-        searchState.notes.forEach((note, noteId) => {
-          if (!note.tags.has(tagHash)) {
-            return;
-          }
-
-          note.tags.delete(tagHash);
-          note.modificationDate = Date.now() / 1000;
-          indexNote(noteId);
-        });
+        const result = next(action);
+        updateNotes(trashed);
 
         // only update the search if we have a trashed tag open
         // it's okay to leave tag search terms in because we
         // can always search for non-existent tags
-        if (searchState.openedTag !== tagHash) {
-          return next(action);
+        if (searchState.openedTag === tagHash) {
+          searchState.openedTag = null;
+          search();
         }
-
-        searchState.openedTag = null;
-        return next(withSearch(action));
+        return result;
       }
     }
 
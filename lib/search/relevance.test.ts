@@ -0,0 +1,48 @@
+import { scoreNote } from './relevance';
+
+const day = 24 * 60 * 60;
+const now = 1000 * day;
+
+describe('scoreNote', () => {
+  it('ranks title matches above body matches', () => {
+    const inTitle = scoreNote('invoice\nfor march', ['invoice'], now, now);
+    const inBody = scoreNote('march\nthe invoice', ['invoice'], now, now);
+
+    expect(inTitle).toBeGreaterThan(inBody);
+  });
+
+  it('uses the first non-empty line as the title', () => {
+    const inTitle = scoreNote('\n\n  invoice\nmarch', ['invoice'], now, now);
+    const inBody = scoreNote('march\ninvoice', ['invoice'], now, now);
+
+    expect(inTitle).toBeGreaterThan(inBody);
+  });
+
+  it('ranks frequent matches above passing mentions', () => {
+    const often = scoreNote('notes\ncat cat cat cat', ['cat'], now, now);
+    const once = scoreNote('notes\ncat', ['cat'], now, now);
+
+    expect(often).toBeGreaterThan(once);
+  });
+
+  it('gives diminishing returns for repeated matches', () => {
+    const lots = scoreNote('notes\n' + 'cat '.repeat(100), ['cat'], now, now);
+    const title = scoreNote('cat\nnotes', ['cat'], now, now);
+
+    expect(lots - title).toBeLessThan(3);
+  });
+
+  it('breaks ties with recency', () => {
+    const recent = scoreNote('notes\ncat', ['cat'], now - day, now);
+    const old = scoreNote('notes\ncat', ['cat'], now - 365 * day, now);
+
+    expect(recent).toBeGreaterThan(old);
+  });
+
+  it('does not let recency outweigh a match', () => {
+    const recent = scoreNote('notes\ncat', ['cat'], now, now);
+    const oldInTitle = scoreNote('cat\nnotes', ['cat'], now - 365 * day, now);
+
+    expect(oldInTitle).toBeGreaterThan(recent);
+  });
+});
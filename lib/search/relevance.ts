@@ -0,0 +1,58 @@
+import type * as T from '../types';
+
+const TITLE_WEIGHT = 3;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+const countOccurrences = (content: string, term: string): number => {
+  let count = 0;
+  let at = content.indexOf(term);
+
+  while (at !== -1) {
+    count++;
+    at = content.indexOf(term, at + term.length);
+  }
+
+  return count;
+};
+
+const titleOf = (content: string): string => {
+  const match = /^\s*(.*)$/m.exec(content);
+
+  return match ? match[1] : '';
+};
+
+/**
+ * Scores how well a note matches a set of search terms
+ *
+ * Each term contributes for appearing in the title and, with
+ * diminishing returns, for every time it appears in the note.
+ * More recently-modified notes get a small boost which fades
+ * as they age, breaking ties between otherwise-equal matches.
+ *
+ * @param content folded note content
+ * @param terms folded search terms
+ * @param modificationDate when the note was last modified
+ * @param now current time, in seconds
+ * @returns score where higher is more relevant
+ */
+export const scoreNote = (
+  content: string,
+  terms: string[],
+  modificationDate: T.SecondsEpoch,
+  now: T.SecondsEpoch
+): number => {
+  const title = titleOf(content);
+
+  const termScore = terms.reduce(
+    (score, term) =>
+      score +
+      (title.includes(term) ? TITLE_WEIGHT : 0) +
+      Math.log1p(countOccurrences(content, term)),
+    0
+  );
+
+  const ageInDays = Math.max(0, now - modificationDate) / (24 * 60 * 60);
+  const recency = 1 / (1 + ageInDays / RECENCY_HALF_LIFE_DAYS);
+
+  return termScore + recency;
+};
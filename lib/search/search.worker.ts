@@ -0,0 +1,139 @@
+import { createSearchEngine } from './engine';
+import { loadSearchIndex, saveSearchIndex } from '../state/persistence';
+
+import type * as T from '../types';
+import type { SearchIndexEntry, SearchParams } from './engine';
+
+export type SearchWorkerMessage =
+  | { type: 'count'; queries: string[] }
+  | { type: 'find'; searchQuery: string }
+  | { type: 'loadNotes'; notes: [T.EntityId, T.Note, string][] }
+  | { type: 'removeNote'; noteId: T.EntityId }
+  | { type: 'search'; searchId: number; params: SearchParams }
+  | { type: 'updateNotes'; notes: [T.EntityId, T.Note, string][] }
+  | {
+      type: 'updateRevisions';
+      noteId: T.EntityId;
+      revisions: [number, string][];
+    };
+
+export type SearchWorkerResult =
+  | { type: 'counts'; counts: [string, number][] }
+  | { type: 'found'; noteIds: T.EntityId[] }
+  | {
+      type: 'search';
+      searchId: number;
+      noteIds: T.EntityId[];
+      revisionMatches: [T.EntityId, number[]][];
+    };
+
+const ctx = (self as unknown) as Worker;
+const engine = createSearchEngine();
+
+const unsavedNoteIds = new Set<T.EntityId>();
+const removedNoteIds = new Set<T.EntityId>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const queueSave = () => {
+  clearTimeout(saveTimer!);
+
+  saveTimer = setTimeout(() => {
+    const entries: [T.EntityId, SearchIndexEntry][] = [];
+    unsavedNoteIds.forEach((noteId) => {
+      const entry = engine.indexEntry(noteId);
+      if (entry) {
+        entries.push([noteId, entry]);
+      }
+    });
+
+    saveSearchIndex(entries, [...removedNoteIds], engine.sortOrders());
+    unsavedNoteIds.clear();
+    removedNoteIds.clear();
+  }, 1000);
+};
+
+const handleMessage = (message: SearchWorkerMessage): Promise<void> | void => {
+  switch (message.type) {
+    case 'count': {
+      const result: SearchWorkerResult = {
+        type: 'counts',
+        counts: message.queries.map((query) => [query, engine.count(query)]),
+      };
+      ctx.postMessage(result);
+      return;
+    }
+
+    case 'find': {
+      const result: SearchWorkerResult = {
+        type: 'found',
+        noteIds: engine.find(message.searchQuery),
+      };
+      ctx.postMessage(result);
+      return;
+    }
+
+    case 'loadNotes':
+      return loadSearchIndex().then(([savedIndex, savedSortOrders]) => {
+        engine
+          .loadNotes(message.notes, savedIndex, savedSortOrders)
+          .forEach((noteId) => unsavedNoteIds.add(noteId));
+
+        // forget notes which were deleted since the index was saved
+        const noteIds = new Set(message.notes.map(([noteId]) => noteId));
+        savedIndex.forEach((entry, noteId) => {
+          if (!noteIds.has(noteId)) {
+            removedNoteIds.add(noteId);
+          }
+        });
+
+        queueSave();
+      });
+
+    case 'removeNote':
+      engine.removeNote(message.noteId);
+      unsavedNoteIds.delete(message.noteId);
+      removedNoteIds.add(message.noteId);
+      queueSave();
+      return;
+
+    case 'search': {
+      const noteIds = engine.search(message.params);
+      const result: SearchWorkerResult = {
+        type: 'search',
+        searchId: message.searchId,
+        noteIds,
+        revisionMatches: engine.revisionMatches(
+          message.params.searchQuery,
+          noteIds
+        ),
+      };
+      ctx.postMessage(result);
+      return;
+    }
+
+    case 'updateNotes':
+      message.notes.forEach(([noteId, note, version]) => {
+        engine.updateNote(noteId, note, version);
+        unsavedNoteIds.add(noteId);
+        removedNoteIds.delete(noteId);
+      });
+      queueSave();
+      return;
+
+    // revisions are already saved with the app state so they aren't indexed
+    case 'updateRevisions':
+      engine.updateRevisions(message.noteId, message.revisions);
+      return;
+  }
+};
+
+// loading the saved index is asynchronous so messages wait
+// in line behind it to make sure they're handled in order
+let queue: Promise<void> = Promise.resolve();
+
+ctx.addEventListener('message', (event: MessageEvent) => {
+  const message: SearchWorkerMessage = event.data;
+
+  // one failed message shouldn't stop every other one behind it
+  queue = queue.then(() => handleMessage(message)).catch(() => undefined);
+});
@@ -0,0 +1,155 @@
+import { TextIndex, tokensOf } from './text-index';
+
+import type * as T from '../types';
+
+const id = (n: number) => `note-${n}` as T.EntityId;
+
+describe('tokensOf', () => {
+  it('splits on whitespace and punctuation', () => {
+    expect([...tokensOf('big cat, well-known\n#todo')]).toEqual([
+      'big',
+      'cat',
+      'well',
+      'known',
+      'todo',
+    ]);
+  });
+
+  it('keeps non-Latin text together', () => {
+    expect([...tokensOf('café über 東京')]).toEqual(['café', 'über', '東京']);
+  });
+
+  it('splits CJK text into overlapping pairs', () => {
+    expect([...tokensOf('東京都に行く、iphone用')]).toEqual([
+      '東京',
+      '京都',
+      '都に',
+      'に行',
+      '行く',
+      'iphone',
+      '用',
+    ]);
+  });
+});
+
+describe('TextIndex', () => {
+  it('finds notes with tokens containing the term', () => {
+    const index = new TextIndex();
+    index.set(id(1), 'concatenate strings');
+    index.set(id(2), 'a cat sat');
+    index.set(id(3), 'dogs only');
+
+    expect(index.candidates('cat')).toEqual(new Set([id(1), id(2)]));
+  });
+
+  it('requires every part of a term to match', () => {
+    const index = new TextIndex();
+    index.set(id(1), 'big cat');
+    index.set(id(2), 'big dog');
+
+    expect(index.candidates('ig ca')).toEqual(new Set([id(1)]));
+  });
+
+  it('finds words inside of CJK text', () => {
+    const index = new TextIndex();
+    index.set(id(1), '東京都に行く');
+    index.set(id(2), '京都に行く');
+
+    expect(index.candidates('東京')).toEqual(new Set([id(1)]));
+    expect(index.candidates('京都')).toEqual(new Set([id(1), id(2)]));
+    expect(index.candidates('都')).toEqual(new Set([id(1), id(2)]));
+  });
+
+  it('cannot narrow down terms without tokens', () => {
+    const index = new TextIndex();
+    index.set(id(1), 'a - b');
+
+    expect(index.candidates(' - ')).toBeNull();
+  });
+
+  it('forgets old content when a note changes', () => {
+    const index = new TextIndex();
+    index.set(id(1), 'cat');
+    index.set(id(1), 'dog');
+
+    expect(index.candidates('cat')).toEqual(new Set());
+    expect(index.candidates('dog')).toEqual(new Set([id(1)]));
+    expect(index.postings.has('cat')).toBe(false);
+  });
+
+  it('forgets deleted notes', () => {
+    const index = new TextIndex();
+    index.set(id(1), 'cat');
+    index.set(id(2), 'cat');
+    index.delete(id(1));
+
+    expect(index.candidates('cat')).toEqual(new Set([id(2)]));
+    expect(index.noteTokens.has(id(1))).toBe(false);
+  });
+
+  describe('with a larger library', () => {
+    const noteCount = 500;
+    const words = Array.from({ length: 200 }, (_, n) =>
+      (n * 7919).toString(36).padStart(4, 'q')
+    );
+    const contents = new Map<T.EntityId, string>();
+    const index = new TextIndex();
+
+    // deterministic pseudo-random so results are repeatable
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    beforeAll(() => {
+      for (let n = 0; n < noteCount; n++) {
+        const content = Array.from(
+          { length: 40 },
+          () => words[Math.floor(random() * words.length)]
+        ).join(' ');
+
+        contents.set(id(n), content);
+        index.set(id(n), content);
+      }
+    });
+
+    const terms = [
+      words[0],
+      words[123],
+      words[7].slice(1, 3),
+      'zzzz',
+      `${words[7]} ${words[8]}`,
+    ];
+
+    it('never misses a note containing the term', () => {
+      terms.forEach((term) => {
+        const candidates = index.candidates(term)!;
+
+        contents.forEach((content, noteId) => {
+          if (content.includes(term)) {
+            expect(candidates.has(noteId)).toBe(true);
+          }
+        });
+      });
+    });
+
+    it('suggests exactly the notes with tokens containing every part', () => {
+      terms.forEach((term) => {
+        const parts = [...tokensOf(term)];
+        const expected = new Set(
+          [...contents]
+            .filter(([, content]) => {
+              const tokens = [...tokensOf(content)];
+              return parts.every((part) =>
+                tokens.some((token) => token.includes(part))
+              );
+            })
+            .map(([noteId]) => noteId)
+        );
+
+        expect(index.candidates(term)).toEqual(expected);
+      });
+    });
+  });
+});
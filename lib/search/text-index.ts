@@ -0,0 +1,164 @@
+import type * as T from '../types';
+
+// whitespace, ASCII punctuation, and CJK punctuation separate
+// tokens; anything else, including non-Latin letters, is part of one
+const separators = /[\s!-/:-@[-`{-~\u3000-\u3004\u3008-\u3020\u30fb]+/;
+
+// scripts which are written without spaces between words
+const cjkRuns = /([\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+)/;
+
+/**
+ * Splits text into the tokens stored in the index
+ *
+ * Without spaces to split on, CJK text would end up as tokens as long
+ * as whole sentences. Instead, runs of CJK characters are broken into
+ * overlapping pairs, so `東京都` becomes `東京` and `京都`, and any word
+ * inside the run can be found through the pairs which make it up.
+ *
+ * @param text folded text to split
+ * @returns unique, non-empty tokens
+ */
+export const tokensOf = (text: string): Set<string> => {
+  const tokens = new Set<string>();
+
+  text.split(separators).forEach((word) =>
+    // splitting on a capture group keeps the CJK runs at odd indices
+    word.split(cjkRuns).forEach((run, at) => {
+      if (run.length === 0) {
+        return;
+      }
+
+      if (at % 2 === 0 || run.length === 1) {
+        tokens.add(run);
+        return;
+      }
+
+      for (let i = 0; i < run.length - 1; i++) {
+        tokens.add(run.slice(i, i + 2));
+      }
+    })
+  );
+
+  return tokens;
+};
+
+/**
+ * Inverted index from the tokens in each note to the notes containing them
+ *
+ * Searches match any part of a note's text, not just whole words, so
+ * this can't give an exact answer for a search term. Instead it narrows
+ * down which notes could possibly contain the term; since each piece of
+ * a term between separators has to appear inside one of a note's tokens
+ * only notes with such tokens are candidates. That leaves checking the
+ * few candidates against their full content to the search itself.
+ */
+export class TextIndex {
+  postings: Map<string, Set<T.EntityId>>;
+  noteTokens: Map<T.EntityId, Set<string>>;
+
+  constructor() {
+    this.postings = new Map();
+    this.noteTokens = new Map();
+  }
+
+  /**
+   * Indexes the content of a note, replacing whatever was there before
+   *
+   * @param noteId note whose content changed
+   * @param content folded note content
+   */
+  set(noteId: T.EntityId, content: string): void {
+    this.setTokens(noteId, tokensOf(content));
+  }
+
+  /**
+   * Indexes tokens which were already split out of a note's content
+   *
+   * @param noteId note whose content changed
+   * @param tokens tokens of the folded note content
+   */
+  setTokens(noteId: T.EntityId, tokens: Set<string>): void {
+    const previous = this.noteTokens.get(noteId);
+
+    previous?.forEach((token) => {
+      if (!tokens.has(token)) {
+        this.removePosting(token, noteId);
+      }
+    });
+
+    tokens.forEach((token) => {
+      if (previous?.has(token)) {
+        return;
+      }
+
+      const noteIds = this.postings.get(token);
+      if (noteIds) {
+        noteIds.add(noteId);
+      } else {
+        this.postings.set(token, new Set([noteId]));
+      }
+    });
+
+    this.noteTokens.set(noteId, tokens);
+  }
+
+  delete(noteId: T.EntityId): void {
+    this.noteTokens
+      .get(noteId)
+      ?.forEach((token) => this.removePosting(token, noteId));
+    this.noteTokens.delete(noteId);
+  }
+
+  /**
+   * Finds the notes which could contain a search term
+   *
+   * @param term folded search term
+   * @returns superset of the notes containing the term or
+   *          null if the term has no tokens to narrow it down
+   */
+  candidates(term: string): Set<T.EntityId> | null {
+    const parts = [...tokensOf(term)];
+    if (parts.length === 0) {
+      return null;
+    }
+
+    // every part must match, so start with the rarest
+    const matches = parts
+      .map((part) => this.notesWithTokensContaining(part))
+      .sort((a, b) => a.size - b.size);
+
+    const [rarest, ...others] = matches;
+    const found = new Set<T.EntityId>();
+    rarest.forEach((noteId) => {
+      if (others.every((noteIds) => noteIds.has(noteId))) {
+        found.add(noteId);
+      }
+    });
+
+    return found;
+  }
+
+  private notesWithTokensContaining(part: string): Set<T.EntityId> {
+    const found = new Set<T.EntityId>();
+
+    this.postings.forEach((noteIds, token) => {
+      if (token.includes(part)) {
+        noteIds.forEach((noteId) => found.add(noteId));
+      }
+    });
+
+    return found;
+  }
+
+  private removePosting(token: string, noteId: T.EntityId): void {
+    const noteIds = this.postings.get(token);
+    if (!noteIds) {
+      return;
+    }
+
+    noteIds.delete(noteId);
+    if (noteIds.size === 0) {
+      this.postings.delete(token);
+    }
+  }
+}
@@ -10,6 +10,7 @@ export type Action<
       nextNoteToOpen?: T.EntityId | null;
       searchResults?: {
         noteIds: T.EntityId[];
+        revisionMatches: Map<T.EntityId, number[]>;
         tagHashes: T.TagHash[];
       };
     };
@@ -56,50 +57,106 @@ export type SetTheme = Action<'setTheme', { theme: T.Theme }>;
 export type CloseDialog = Action<'CLOSE_DIALOG'>;
 export type CloseNote = Action<'CLOSE_NOTE'>;
 export type CloseRevision = Action<'CLOSE_REVISION'>;
+export type CompleteReminder = Action<
+  'COMPLETE_REMINDER',
+  { noteId: T.EntityId; line: number }
+>;
 export type CreateNote = Action<'CREATE_NOTE', { note?: Partial<T.Note> }>;
+export type CreateNoteFromTemplate = Action<
+  'CREATE_NOTE_FROM_TEMPLATE',
+  { templateId: T.EntityId; title: string }
+>;
 export type CreateNoteWithId = Action<
   'CREATE_NOTE_WITH_ID',
   { noteId: T.EntityId; note?: Partial<T.Note> }
 >;
 export type DecreaseFontSize = Action<'DECREASE_FONT_SIZE'>;
 export type DeleteOpenNoteForever = Action<'DELETE_OPEN_NOTE_FOREVER'>;
+export type DismissReminders = Action<'DISMISS_REMINDERS'>;
 export type ExportNotes = Action<'EXPORT_NOTES'>;
 export type FilterNotes = Action<
   'FILTER_NOTES',
   { noteIds: T.EntityId[]; tagHashes: T.TagHash[] }
 >;
+export type FindNotes = Action<'FIND_NOTES', { searchQuery: string }>;
 export type FocusSearchField = Action<'FOCUS_SEARCH_FIELD'>;
+export type GoToHeading = Action<
+  'GO_TO_HEADING',
+  { noteId: T.EntityId; line: number }
+>;
 export type IncreaseFontSize = Action<'INCREASE_FONT_SIZE'>;
 export type Logout = Action<'LOGOUT'>;
+export type OpenAdjacentDailyNote = Action<
+  'OPEN_ADJACENT_DAILY_NOTE',
+  { direction: 'previous' | 'next' }
+>;
+export type OpenDailyNote = Action<'OPEN_DAILY_NOTE'>;
 export type OpenNote = Action<'OPEN_NOTE', { noteId?: T.EntityId }>;
 export type OpenRevision = Action<
   'OPEN_REVISION',
   { noteId: T.EntityId; version: number }
 >;
+export type OpenSavedSearch = Action<'OPEN_SAVED_SEARCH', { name: string }>;
 export type OpenTag = Action<'OPEN_TAG', { tagName: T.TagName }>;
 export type ReallyLogout = Action<'REALLY_LOGOUT'>;
 export type RecordEvent = Action<
   'RECORD_EVENT',
   { eventName: string; eventProperties?: T.JSONSerializable }
 >;
+export type RemindTasks = Action<'REMIND_TASKS', { tasks: T.Task[] }>;
 export type RequestNotifications = Action<
   'REQUEST_NOTIFICATIONS',
   { sendNotifications: boolean }
 >;
 export type ResetFontSize = Action<'RESET_FONT_SIZE'>;
 export type RestoreOpenNote = Action<'RESTORE_OPEN_NOTE'>;
+export type RunTagRules = Action<'RUN_TAG_RULES'>;
 export type Search = Action<'SEARCH', { searchQuery: string }>;
 export type SelectNote = Action<'SELECT_NOTE', { noteId: T.EntityId }>;
 export type SelectNoteAbove = Action<'SELECT_NOTE_ABOVE'>;
 export type SelectNoteBelow = Action<'SELECT_NOTE_BELOW'>;
 export type SelectTrash = Action<'SELECT_TRASH'>;
 export type SetAnalytics = Action<'SET_ANALYTICS', { allowAnalytics: boolean }>;
+export type SetCurrentHeading = Action<
+  'SET_CURRENT_HEADING',
+  { noteId: T.EntityId; line: number | null }
+>;
+export type SetDailyNoteTag = Action<
+  'SET_DAILY_NOTE_TAG',
+  { dailyNoteTag: string }
+>;
+export type SetDailyNoteTitleFormat = Action<
+  'SET_DAILY_NOTE_TITLE_FORMAT',
+  { dailyNoteTitleFormat: string }
+>;
+export type SetFoundNotes = Action<
+  'SET_FOUND_NOTES',
+  { noteIds: T.EntityId[] }
+>;
+export type SetSavedSearchCounts = Action<
+  'SET_SAVED_SEARCH_COUNTS',
+  { counts: Map<string, number> }
+>;
+export type SetSearchSortReversed = Action<
+  'SET_SEARCH_SORT_REVERSED',
+  { sortReversed: boolean }
+>;
+export type SetSearchSortType = Action<
+  'SET_SEARCH_SORT_TYPE',
+  { sortType: T.SortType }
+>;
+export type SetTagRules = Action<'SET_TAG_RULES', { tagRules: T.TagRule[] }>;
 export type SetUnsyncedNoteIds = Action<
   'SET_UNSYNCED_NOTE_IDS',
   { noteIds: T.EntityId[] }
 >;
 export type ShowAllNotes = Action<'SHOW_ALL_NOTES'>;
 export type ShowDialog = Action<'SHOW_DIALOG', { dialog: T.DialogType }>;
+export type ShowTasks = Action<'SHOW_TASKS'>;
+export type SnoozeReminder = Action<
+  'SNOOZE_REMINDER',
+  { noteId: T.EntityId; line: number; until: Date }
+>;
 export type StoreEditorSelection = Action<
   'STORE_EDITOR_SELECTION',
   { noteId: T.EntityId; start: number; end: number; direction: 'RTL' | 'LTR' }
@@ -116,6 +173,7 @@ export type ToggleKeyboardShortcuts = Action<'KEYBOARD_SHORTCUTS_TOGGLE'>;
 export type ToggleNavigation = Action<'NAVIGATION_TOGGLE'>;
 export type ToggleNoteList = Action<'NOTE_LIST_TOGGLE'>;
 export type ToggleNoteInfo = Action<'NOTE_INFO_TOGGLE'>;
+export type ToggleOutline = Action<'OUTLINE_TOGGLE'>;
 export type ToggleRevisions = Action<'REVISIONS_TOGGLE'>;
 export type ToggleSimperiumConnectionStatus = Action<
   'SIMPERIUM_CONNECTION_STATUS_TOGGLE',
@@ -145,6 +203,7 @@ export type DeleteNoteForever = Action<
   'DELETE_NOTE_FOREVER',
   { noteId: T.EntityId }
 >;
+export type DeleteSavedSearch = Action<'DELETE_SAVED_SEARCH', { name: string }>;
 export type EditNote = Action<
   'EDIT_NOTE',
   { noteId: T.EntityId; changes: Partial<T.Note> }
@@ -167,6 +226,10 @@ export type MarkdownNote = Action<
   'MARKDOWN_NOTE',
   { noteId: T.EntityId; shouldEnableMarkdown: boolean }
 >;
+export type MergeTag = Action<
+  'MERGE_TAG',
+  { tagName: T.TagName; intoTagName: T.TagName }
+>;
 export type PinNote = Action<
   'PIN_NOTE',
   { noteId: T.EntityId; shouldPin: boolean }
@@ -191,7 +254,12 @@ export type ReorderTag = Action<
   'REORDER_TAG',
   { tagName: T.TagName; newIndex: number }
 >;
+export type ReplaceInNotes = Action<
+  'REPLACE_IN_NOTES',
+  { replacements: T.NoteReplacement[] }
+>;
 export type RestoreNote = Action<'RESTORE_NOTE', { noteId: T.EntityId }>;
+export type SaveSearch = Action<'SAVE_SEARCH', { savedSearch: T.SavedSearch }>;
 export type RestoreNoteRevision = Action<
   'RESTORE_NOTE_REVISION',
   { noteId: T.EntityId; version: number; note: T.Note }
@@ -200,7 +268,12 @@ export type SetSystemTag = Action<
   'SET_SYSTEM_TAG',
   { note: T.NoteEntity; tagName: T.SystemTag; shouldHaveTag: boolean }
 >;
+export type SetTagMetadata = Action<
+  'SET_TAG_METADATA',
+  { tagName: T.TagName; metadata: T.TagMetadata }
+>;
 export type TrashTag = Action<'TRASH_TAG', { tagName: T.TagName }>;
+export type UndoReplaceInNotes = Action<'UNDO_REPLACE_IN_NOTES'>;
 
 /*
  * Simperium operations
@@ -310,19 +383,25 @@ export type ActionType =
   | CloseNote
   | CloseDialog
   | CloseRevision
+  | CompleteReminder
   | CreateNote
+  | CreateNoteFromTemplate
   | CreateNoteWithId
   | DecreaseFontSize
   | DeleteOpenNoteForever
+  | DismissReminders
   | DeleteNoteForever
+  | DeleteSavedSearch
   | EditNote
   | EmptyTrash
   | ExportNotes
   | FilterNotes
+  | FindNotes
   | FocusSearchField
   | GhostRemoveEntity
   | GhostSetChangeVersion
   | GhostSetEntity
+  | GoToHeading
   | ImportNote
   | ImportNoteWithId
   | IncreaseFontSize
@@ -331,10 +410,14 @@ export type ActionType =
   | LoadRevisions
   | Logout
   | MarkdownNote
+  | MergeTag
   | NoteBucketRemove
   | NoteBucketUpdate
+  | OpenAdjacentDailyNote
+  | OpenDailyNote
   | OpenNote
   | OpenRevision
+  | OpenSavedSearch
   | OpenTag
   | PinNote
   | PreferencesBucketRemove
@@ -342,6 +425,7 @@ export type ActionType =
   | PublishNote
   | ReallyLogout
   | RecordEvent
+  | RemindTasks
   | RemoteAnalyticsUpdate
   | RemoteNoteUpdate
   | RemoteNoteDeleteForever
@@ -351,11 +435,14 @@ export type ActionType =
   | RemoveNoteTag
   | RenameTag
   | ReorderTag
+  | ReplaceInNotes
   | RequestNotifications
   | ResetFontSize
   | RestoreOpenNote
   | RestoreNote
   | RestoreNoteRevision
+  | RunTagRules
+  | SaveSearch
   | Search
   | SelectNote
   | SelectNoteAbove
@@ -365,18 +452,29 @@ export type ActionType =
   | SetAnalytics
   | SetAutoHideMenuBar
   | SetChangeVersion
+  | SetCurrentHeading
+  | SetDailyNoteTag
+  | SetDailyNoteTitleFormat
   | SetFocusMode
+  | SetFoundNotes
   | SetLineLength
   | SetNoteDisplay
+  | SetSavedSearchCounts
+  | SetSearchSortReversed
+  | SetSearchSortType
   | SetSortReversed
   | SetSortTagsAlpha
   | SetSortType
   | SetSpellCheck
   | SetSystemTag
+  | SetTagMetadata
+  | SetTagRules
   | SetTheme
   | SetUnsyncedNoteIds
   | ShowAllNotes
   | ShowDialog
+  | ShowTasks
+  | SnoozeReminder
   | StoreEditorSelection
   | SubmitPendingChange
   | SystemThemeUpdate
@@ -391,6 +489,7 @@ export type ActionType =
   | ToggleNavigation
   | ToggleNoteList
   | ToggleNoteInfo
+  | ToggleOutline
   | ToggleRevisions
   | ToggleSimperiumConnectionStatus
   | ToggleSortTagsAlpha
@@ -401,6 +500,7 @@ export type ActionType =
   | TrashNote
   | TrashTag
   | TrashOpenNote
+  | UndoReplaceInNotes
   | WindowResize;
 
 export type ActionCreator<A extends ActionType> = (...args: any[]) => A;
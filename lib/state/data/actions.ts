@@ -10,6 +10,13 @@ export const addCollaborator: A.ActionCreator<A.AddCollaborator> = (
   collaboratorAccount,
 });
 
+export const deleteSavedSearch: A.ActionCreator<A.DeleteSavedSearch> = (
+  name: string
+) => ({
+  type: 'DELETE_SAVED_SEARCH',
+  name,
+});
+
 export const editNote: A.ActionCreator<A.EditNote> = (
   noteId: T.EntityId,
   changes: Partial<T.Note>
@@ -64,6 +71,37 @@ export const removeCollaborator: A.ActionCreator<A.RemoveCollaborator> = (
   collaboratorAccount,
 });
 
+export const replaceInNotes: A.ActionCreator<A.ReplaceInNotes> = (
+  replacements: T.NoteReplacement[]
+) => ({
+  type: 'REPLACE_IN_NOTES',
+  replacements,
+});
+
+export const runTagRules: A.ActionCreator<A.RunTagRules> = () => ({
+  type: 'RUN_TAG_RULES',
+});
+
+export const saveSearch: A.ActionCreator<A.SaveSearch> = (
+  savedSearch: T.SavedSearch
+) => ({
+  type: 'SAVE_SEARCH',
+  savedSearch,
+});
+
+export const setTagMetadata: A.ActionCreator<A.SetTagMetadata> = (
+  tagName: T.TagName,
+  metadata: T.TagMetadata
+) => ({
+  type: 'SET_TAG_METADATA',
+  tagName,
+  metadata,
+});
+
 export const toggleAnalytics: A.ActionCreator<A.ToggleAnalytics> = () => ({
   type: 'TOGGLE_ANALYTICS',
 });
+
+export const undoReplaceInNotes: A.ActionCreator<A.UndoReplaceInNotes> = () => ({
+  type: 'UNDO_REPLACE_IN_NOTES',
+});
@@ -1,11 +1,30 @@
 import { v4 as uuid } from 'uuid';
 
+import {
+  adjacentDailyNote,
+  dailyNoteDate,
+  dailyNoteTitle,
+  defaultTitleFormat,
+  findDailyNote,
+} from '../../utils/daily-notes';
 import exportZipArchive from '../../utils/export';
+import { noteFromTemplate } from '../../utils/note-templates';
+import {
+  isTagOrDescendant,
+  tagHashOf as t,
+  tagPathOf,
+} from '../../utils/tag-hash';
 
 import type * as A from '../action-types';
+import type { DailyNoteSettings } from '../../utils/daily-notes';
 import type * as S from '../';
 import type * as T from '../../types';
 
+const dailyNoteSettings = ({ settings }: S.State): DailyNoteSettings => ({
+  tagName: settings.dailyNoteTag.trim(),
+  titleFormat: settings.dailyNoteTitleFormat || defaultTitleFormat,
+});
+
 export const middleware: S.Middleware = (store) => (
   next: (action: A.ActionType) => A.ActionType
 ) => (action: A.ActionType) => {
@@ -38,6 +57,42 @@ export const middleware: S.Middleware = (store) => (
       });
     }
 
+    // templates bring their own Markdown setting
+    // so this doesn't go through CREATE_NOTE
+    case 'CREATE_NOTE_FROM_TEMPLATE': {
+      const template = state.data.notes.get(action.templateId);
+      if (!template) {
+        return;
+      }
+
+      const noteId = uuid() as T.EntityId;
+      const { note, cursorAt } = noteFromTemplate(template, {
+        now: new Date(),
+        title: action.title,
+      });
+
+      const result = next({
+        type: 'CREATE_NOTE_WITH_ID',
+        noteId,
+        note,
+        meta: {
+          nextNoteToOpen: noteId,
+        },
+      });
+
+      if (null !== cursorAt) {
+        store.dispatch({
+          type: 'STORE_EDITOR_SELECTION',
+          noteId,
+          start: cursorAt,
+          end: cursorAt,
+          direction: 'LTR',
+        });
+      }
+
+      return result;
+    }
+
     case 'DELETE_OPEN_NOTE_FOREVER':
       if (!state.ui.openedNote) {
         return;
@@ -69,6 +124,109 @@ export const middleware: S.Middleware = (store) => (
         note: action.note,
       });
 
+    case 'OPEN_ADJACENT_DAILY_NOTE': {
+      const settings = dailyNoteSettings(state);
+      const { openedNote } = state.ui;
+      const note = openedNote && state.data.notes.get(openedNote);
+      const from = (note && dailyNoteDate(note, settings)) ?? new Date();
+      const noteId = adjacentDailyNote(
+        state.data.notes,
+        settings,
+        from,
+        action.direction
+      );
+
+      if (noteId) {
+        store.dispatch({ type: 'OPEN_NOTE', noteId });
+      }
+      return next(action);
+    }
+
+    case 'OPEN_DAILY_NOTE': {
+      const settings = dailyNoteSettings(state);
+      const today = new Date();
+      const existing = findDailyNote(state.data.notes, settings, today);
+
+      if (existing) {
+        store.dispatch({ type: 'OPEN_NOTE', noteId: existing });
+        return next(action);
+      }
+
+      const content = `${dailyNoteTitle(today, settings.titleFormat)}\n`;
+      store.dispatch({
+        type: 'CREATE_NOTE',
+        note: {
+          content,
+          tags: settings.tagName ? [settings.tagName as T.TagName] : [],
+        },
+      });
+
+      // start writing below the title
+      const noteId = store.getState().ui.openedNote;
+      if (noteId) {
+        store.dispatch({
+          type: 'STORE_EDITOR_SELECTION',
+          noteId,
+          start: content.length,
+          end: content.length,
+          direction: 'LTR',
+        });
+      }
+      return next(action);
+    }
+
+    // nested tags are named after their ancestors so they move along with them
+    case 'RENAME_TAG': {
+      const oldHash = t(action.oldTagName);
+      const depth = tagPathOf(action.oldTagName).length;
+
+      const result = next(action);
+      state.data.tags.forEach((tag, tagHash) => {
+        const path = tagPathOf(tag.name);
+        if (path.length <= depth || !isTagOrDescendant(tagHash, oldHash)) {
+          return;
+        }
+
+        const newPath = [action.newTagName, ...path.slice(depth)];
+        store.dispatch({
+          type: 'RENAME_TAG',
+          oldTagName: tag.name,
+          newTagName: newPath.join('/') as T.TagName,
+        });
+      });
+      return result;
+    }
+
+    // each note changes through the usual edit so it syncs like any other
+    case 'REPLACE_IN_NOTES': {
+      const result = next(action);
+      action.replacements.forEach(({ noteId, after }) =>
+        store.dispatch({
+          type: 'EDIT_NOTE',
+          noteId,
+          changes: { content: after },
+        })
+      );
+      return result;
+    }
+
+    case 'UNDO_REPLACE_IN_NOTES': {
+      const replacements = state.ui.lastReplacement ?? [];
+      const result = next(action);
+
+      // leave alone notes which were edited again since then
+      replacements.forEach(({ noteId, before, after }) => {
+        if (store.getState().data.notes.get(noteId)?.content === after) {
+          store.dispatch({
+            type: 'EDIT_NOTE',
+            noteId,
+            changes: { content: before },
+          });
+        }
+      });
+      return result;
+    }
+
     case 'RESTORE_NOTE_REVISION': {
       const revision = state.data.noteRevisions
         .get(action.noteId)
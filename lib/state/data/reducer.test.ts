@@ -0,0 +1,112 @@
+import { noteTags, notes, tagMetadata, tags } from './reducer';
+import { tagHashOf } from '../../utils/tag-hash';
+
+import type * as A from '../action-types';
+import type * as T from '../../types';
+
+const note = (tagNames: string[]): T.Note => ({
+  content: '',
+  creationDate: 1,
+  deleted: false,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: tagNames as T.TagName[],
+});
+
+const hash = (tagName: string) => tagHashOf(tagName as T.TagName);
+const id = (name: string) => name as T.EntityId;
+
+const mergeTag: A.MergeTag = {
+  type: 'MERGE_TAG',
+  tagName: 'meeting' as T.TagName,
+  intoTagName: 'meetings' as T.TagName,
+};
+
+describe('MERGE_TAG', () => {
+  it('retags notes without duplicating tags', () => {
+    const state = new Map([
+      [id('a'), note(['work', 'Meeting'])],
+      [id('b'), note(['meetings', 'meeting', 'home'])],
+      [id('c'), note(['home'])],
+    ]);
+
+    const next = notes(state, mergeTag);
+
+    expect(next.get(id('a'))!.tags).toEqual(['work', 'meetings']);
+    expect(next.get(id('b'))!.tags).toEqual(['meetings', 'home']);
+    expect(next.get(id('c'))).toBe(state.get(id('c')));
+  });
+
+  it('removes the merged tag and its index entry', () => {
+    const tagState = new Map([
+      [hash('meeting'), { name: 'meeting' as T.TagName, index: 0 }],
+      [hash('meetings'), { name: 'meetings' as T.TagName, index: 1 }],
+    ]);
+    const indexState = new Map([
+      [hash('meeting'), new Set([id('a'), id('b')])],
+      [hash('meetings'), new Set([id('b'), id('c')])],
+    ]);
+
+    expect([...tags(tagState, mergeTag)]).toEqual([
+      [hash('meetings'), { name: 'meetings', index: 1 }],
+    ]);
+    expect([...noteTags(indexState, mergeTag)]).toEqual([
+      [hash('meetings'), new Set([id('b'), id('c'), id('a')])],
+    ]);
+  });
+});
+
+describe('RENAME_TAG', () => {
+  it('does not turn a level of nested tags into a tag', () => {
+    const tagState = new Map([
+      [hash('work/clientA'), { name: 'work/clientA' as T.TagName, index: 0 }],
+    ]);
+
+    const next = tags(tagState, {
+      type: 'RENAME_TAG',
+      oldTagName: 'work' as T.TagName,
+      newTagName: 'jobs' as T.TagName,
+    });
+
+    expect(next).toBe(tagState);
+  });
+});
+
+describe('tag metadata', () => {
+  it('follows a tag when it is renamed', () => {
+    const state = new Map([[hash('work'), { color: 'red' as const }]]);
+
+    const next = tagMetadata(state, {
+      type: 'RENAME_TAG',
+      oldTagName: 'work' as T.TagName,
+      newTagName: 'projects' as T.TagName,
+    });
+
+    expect([...next]).toEqual([[hash('projects'), { color: 'red' }]]);
+  });
+
+  it('keeps the looks of the tag which remains after a merge', () => {
+    const state = new Map([
+      [hash('meeting'), { icon: '📅' }],
+      [hash('meetings'), { color: 'blue' as const }],
+    ]);
+
+    expect([...tagMetadata(state, mergeTag)]).toEqual([
+      [hash('meetings'), { color: 'blue' }],
+    ]);
+  });
+
+  it('forgets tags without a color or icon', () => {
+    const state = new Map([[hash('work'), { icon: '💼' }]]);
+
+    const next = tagMetadata(state, {
+      type: 'SET_TAG_METADATA',
+      tagName: 'Work' as T.TagName,
+      metadata: { icon: undefined },
+    });
+
+    expect(next.size).toBe(0);
+  });
+});
@@ -134,6 +134,42 @@ export const notes: A.Reducer<Map<T.EntityId, T.Note>> = (
       );
     }
 
+    case 'MERGE_TAG': {
+      const fromHash = t(action.tagName);
+      const intoHash = t(action.intoTagName);
+      if (fromHash === intoHash) {
+        return state;
+      }
+
+      const next = new Map(state);
+      let changedIt = false;
+
+      next.forEach((note, noteId) => {
+        if (!note.tags.some((tagName) => t(tagName) === fromHash)) {
+          return;
+        }
+
+        // the merged tag stays where the first of the two was on the note
+        const hashes = new Set<T.TagHash>();
+        const tags: T.TagName[] = [];
+        note.tags.forEach((tagName) => {
+          const newTagName =
+            t(tagName) === fromHash ? action.intoTagName : tagName;
+          const hash = t(newTagName);
+
+          if (!hashes.has(hash)) {
+            hashes.add(hash);
+            tags.push(newTagName);
+          }
+        });
+
+        changedIt = true;
+        next.set(noteId, modified({ ...note, tags }));
+      });
+
+      return changedIt ? next : state;
+    }
+
     case 'PIN_NOTE': {
       if (!state.has(action.noteId)) {
         return state;
@@ -305,6 +341,8 @@ export const noteRevisions: A.Reducer<Map<T.EntityId, Map<number, T.Note>>> = (
   }
 };
 
+const preferencesKey = 'preferences-key' as T.EntityId;
+
 export const preferences: A.Reducer<Map<T.EntityId, T.Preferences>> = (
   state = new Map(),
   action
@@ -316,6 +354,21 @@ export const preferences: A.Reducer<Map<T.EntityId, T.Preferences>> = (
         analytics_enabled: action.allowAnalytics,
       });
 
+    case 'DELETE_SAVED_SEARCH': {
+      const existing = state.get(preferencesKey);
+      const savedSearches = existing?.saved_searches ?? [];
+      if (!savedSearches.some(({ name }) => name === action.name)) {
+        return state;
+      }
+
+      return new Map(state).set(preferencesKey, {
+        ...existing!,
+        saved_searches: savedSearches.filter(
+          ({ name }) => name !== action.name
+        ),
+      });
+    }
+
     case 'PREFERENCES_BUCKET_REMOVE': {
       const next = new Map(state);
       return next.delete(action.id) ? next : state;
@@ -324,6 +377,20 @@ export const preferences: A.Reducer<Map<T.EntityId, T.Preferences>> = (
     case 'PREFERENCES_BUCKET_UPDATE':
       return new Map(state).set(action.id, action.data);
 
+    case 'SAVE_SEARCH': {
+      // saving under an existing name replaces that search
+      const existing = state.get(preferencesKey);
+      const savedSearches = (existing?.saved_searches ?? []).filter(
+        ({ name }) => name !== action.savedSearch.name
+      );
+
+      return new Map(state).set(preferencesKey, {
+        analytics_enabled: null,
+        ...existing,
+        saved_searches: [...savedSearches, action.savedSearch],
+      });
+    }
+
     default:
       return state;
   }
@@ -369,6 +436,22 @@ export const tags: A.Reducer<Map<T.TagHash, T.Tag>> = (
       return hasUpdates ? next : state;
     }
 
+    case 'MERGE_TAG': {
+      const fromHash = t(action.tagName);
+      const intoHash = t(action.intoTagName);
+      if (fromHash === intoHash) {
+        return state;
+      }
+
+      const next = new Map(state);
+      if (!next.has(intoHash)) {
+        next.set(intoHash, { name: action.intoTagName });
+      }
+      next.delete(fromHash);
+
+      return next;
+    }
+
     case 'REMOTE_TAG_DELETE':
     case 'TAG_BUCKET_REMOVE': {
       const next = new Map(state);
@@ -382,9 +465,14 @@ export const tags: A.Reducer<Map<T.TagHash, T.Tag>> = (
     case 'RENAME_TAG': {
       const prevHash = t(action.oldTagName);
       const nextHash = t(action.newTagName);
+      const prevTag = state.get(prevHash);
+
+      // a level which only exists through its nested tags isn't a tag itself
+      if (!prevTag) {
+        return state;
+      }
 
       const next = new Map(state);
-      const prevTag = state.get(prevHash) ?? {};
       next.set(nextHash, { ...prevTag, name: action.newTagName });
 
       if (prevHash !== nextHash) {
@@ -443,6 +531,69 @@ export const tags: A.Reducer<Map<T.TagHash, T.Tag>> = (
   }
 };
 
+export const tagMetadata: A.Reducer<Map<T.TagHash, T.TagMetadata>> = (
+  state = new Map(),
+  action
+) => {
+  switch (action.type) {
+    case 'MERGE_TAG': {
+      const fromHash = t(action.tagName);
+      const intoHash = t(action.intoTagName);
+      const fromMetadata = state.get(fromHash);
+      if (fromHash === intoHash || !fromMetadata) {
+        return state;
+      }
+
+      // the tag which remains keeps its own looks if it has any
+      const next = new Map(state);
+      next.delete(fromHash);
+      if (!next.has(intoHash)) {
+        next.set(intoHash, fromMetadata);
+      }
+
+      return next;
+    }
+
+    case 'RENAME_TAG': {
+      const prevHash = t(action.oldTagName);
+      const nextHash = t(action.newTagName);
+      const metadata = state.get(prevHash);
+      if (prevHash === nextHash || !metadata) {
+        return state;
+      }
+
+      const next = new Map(state).set(nextHash, metadata);
+      next.delete(prevHash);
+
+      return next;
+    }
+
+    case 'SET_TAG_METADATA': {
+      const next = new Map(state);
+      const { color, icon } = action.metadata;
+
+      if (color || icon) {
+        next.set(t(action.tagName), {
+          ...(color && { color }),
+          ...(icon && { icon }),
+        });
+      } else {
+        next.delete(t(action.tagName));
+      }
+
+      return next;
+    }
+
+    case 'TRASH_TAG': {
+      const next = new Map(state);
+      return next.delete(t(action.tagName)) ? next : state;
+    }
+
+    default:
+      return state;
+  }
+};
+
 export const noteTags: A.Reducer<Map<T.TagHash, Set<T.EntityId>>> = (
   state = new Map(),
   action
@@ -491,6 +642,25 @@ export const noteTags: A.Reducer<Map<T.TagHash, Set<T.EntityId>>> = (
       return next;
     }
 
+    case 'MERGE_TAG': {
+      const fromHash = t(action.tagName);
+      const intoHash = t(action.intoTagName);
+      if (fromHash === intoHash) {
+        return state;
+      }
+
+      const next = new Map(state).set(
+        intoHash,
+        new Set([
+          ...(state.get(intoHash) ?? []),
+          ...(state.get(fromHash) ?? []),
+        ])
+      );
+      next.delete(fromHash);
+
+      return next;
+    }
+
     case 'TAG_REFRESH':
       return action.noteTags;
 
@@ -534,5 +704,6 @@ export default combineReducers({
   noteRevisions,
   noteTags,
   preferences,
+  tagMetadata,
   tags,
 });
@@ -1,6 +1,7 @@
 import debugFactory from 'debug';
 
 import actions from '../actions';
+import * as selectors from '../selectors';
 
 import * as S from '../';
 
@@ -45,6 +46,14 @@ export const middleware: S.Middleware = ({ dispatch, getState }) => {
         dispatch(actions.ui.createNote());
         return;
 
+      case 'openDailyNote':
+        dispatch(actions.ui.openDailyNote());
+        return;
+
+      case 'openAdjacentDailyNote':
+        dispatch(actions.ui.openAdjacentDailyNote(command.direction));
+        return;
+
       case 'increaseFontSize':
         dispatch(actions.settings.increaseFontSize());
         return;
@@ -90,11 +99,20 @@ export const middleware: S.Middleware = ({ dispatch, getState }) => {
     }
   });
 
-  window.electron.send('appStateUpdate', {
-    settings: getState().settings,
-    editMode: getState().ui.editMode,
+  // the menus show the sort type in effect, which is
+  // different from the saved one while searching
+  const appState = (state: S.State) => ({
+    settings: {
+      ...state.settings,
+      sortReversed: selectors.getSortReversed(state),
+      sortType: selectors.getSortType(state),
+    },
+    editMode: state.ui.editMode,
+    isSearching: null !== state.ui.searchSortType,
   });
 
+  window.electron.send('appStateUpdate', appState(getState()));
+
   return (next) => (action) => {
     const prevState = getState();
     const result = next(action);
@@ -102,12 +120,11 @@ export const middleware: S.Middleware = ({ dispatch, getState }) => {
 
     if (
       prevState.settings !== nextState.settings ||
-      prevState.ui.editMode !== nextState.ui.editMode
+      prevState.ui.editMode !== nextState.ui.editMode ||
+      prevState.ui.searchSortReversed !== nextState.ui.searchSortReversed ||
+      prevState.ui.searchSortType !== nextState.ui.searchSortType
     ) {
-      window.electron.send('appStateUpdate', {
-        settings: nextState.settings,
-        editMode: nextState.ui.editMode,
-      });
+      window.electron.send('appStateUpdate', appState(nextState));
     }
 
     return result;
@@ -21,6 +21,8 @@ import { middleware as analyticsMiddleware } from './analytics/middleware';
 import dataMiddleware from './data/middleware';
 import electronMiddleware from './electron/middleware';
 import { middleware as searchMiddleware } from '../search';
+import remindersMiddleware from './reminders/middleware';
+import tagRulesMiddleware from './tag-rules/middleware';
 import uiMiddleware from './ui/middleware';
 import searchFieldMiddleware from './ui/search-field-middleware';
 
@@ -79,6 +81,8 @@ export const makeStore = (
           }),
           applyMiddleware(
             dataMiddleware,
+            tagRulesMiddleware,
+            remindersMiddleware,
             analyticsMiddleware,
             browserMiddleware,
             searchMiddleware,
@@ -1,12 +1,20 @@
-import * as A from './action-types';
-import * as S from './';
-import * as T from '../types';
+// the search worker uses this module too, so only import types here
+import type * as A from './action-types';
+import type * as S from './';
+import type * as T from '../types';
+import type { SearchIndexEntry } from '../search/engine';
 
-const DB_VERSION = 2020065;
+const DB_VERSION = 2020068;
 let keepSyncing = true;
+const stopSyncingListeners: (() => void)[] = [];
 
 export const stopSyncing = (): void => {
   keepSyncing = false;
+  stopSyncingListeners.forEach((listener) => listener());
+};
+
+export const onStopSyncing = (listener: () => void): void => {
+  stopSyncingListeners.push(listener);
 };
 
 const openDB = (): Promise<IDBDatabase> =>
@@ -15,7 +23,7 @@ const openDB = (): Promise<IDBDatabase> =>
 
     r.onsuccess = () => resolve(r.result);
     r.onerror = () => reject();
-    r.onupgradeneeded = () => {
+    r.onupgradeneeded = (event) => {
       const db = r.result;
 
       if (!db.objectStoreNames.contains('state')) {
@@ -25,16 +33,37 @@ const openDB = (): Promise<IDBDatabase> =>
       if (!db.objectStoreNames.contains('revisions')) {
         db.createObjectStore('revisions');
       }
+
+      // notes were tokenized differently before search text was folded
+      if (
+        event.oldVersion < 2020067 &&
+        db.objectStoreNames.contains('searchIndex')
+      ) {
+        db.deleteObjectStore('searchIndex');
+      }
+
+      if (!db.objectStoreNames.contains('searchIndex')) {
+        db.createObjectStore('searchIndex');
+      }
+
+      if (!db.objectStoreNames.contains('searchOrder')) {
+        db.createObjectStore('searchOrder');
+      }
     };
     r.onblocked = () => reject();
   });
 
+// the rest of the settings are kept in localStorage by redux-localstorage
+type SavedState = T.RecursivePartial<Omit<S.State, 'settings'>> & {
+  settings?: Pick<S.State['settings'], 'accountName'>;
+};
+
 export const loadState = (
   accountName: string | null
-): Promise<[T.RecursivePartial<S.State>, S.Middleware | null]> =>
+): Promise<[SavedState, S.Middleware | null]> =>
   openDB()
     .then(
-      (db): Promise<[T.RecursivePartial<S.State>, S.Middleware | null]> =>
+      (db): Promise<[SavedState, S.Middleware | null]> =>
         new Promise((resolve) => {
           let stillGood = true;
 
@@ -71,11 +100,12 @@ export const loadState = (
                 ])
               );
 
-              const data: T.RecursivePartial<S.State> = {
+              const data: SavedState = {
                 data: {
                   analyticsAllowed: state.allowAnalytics ?? null,
                   notes: new Map(state.notes),
                   noteTags,
+                  tagMetadata: new Map(state.tagMetadata ?? []),
                   tags: new Map(state.tags),
                 },
                 settings: {
@@ -170,6 +200,7 @@ export const saveState = (state: S.State) => {
     Array.from(noteIds),
   ]);
   const preferences = Array.from(state.data.preferences);
+  const tagMetadata = Array.from(state.data.tagMetadata);
   const tags = Array.from(state.data.tags);
   const cvs = Array.from(state.simperium.ghosts[0]);
   const ghosts = Array.from(state.simperium.ghosts[1]);
@@ -182,6 +213,7 @@ export const saveState = (state: S.State) => {
     notes,
     noteTags,
     preferences,
+    tagMetadata,
     tags,
     cvs,
     ghosts,
@@ -195,6 +227,78 @@ export const saveState = (state: S.State) => {
   });
 };
 
+type SavedSearchIndex = [
+  Map<T.EntityId, SearchIndexEntry>,
+  T.EntityId[][] | null
+];
+
+/**
+ * Loads the saved search index entries for every note
+ *
+ * @returns entries by note id and the saved sort orders, empty if there are none or they can't be read
+ */
+export const loadSearchIndex = (): Promise<SavedSearchIndex> =>
+  openDB()
+    .then(
+      (db): Promise<SavedSearchIndex> =>
+        new Promise((resolve) => {
+          const tx = db.transaction(['searchIndex', 'searchOrder'], 'readonly');
+          const keysRequest = tx.objectStore('searchIndex').getAllKeys();
+          const entriesRequest = tx.objectStore('searchIndex').getAll();
+          const orderRequest = tx.objectStore('searchOrder').get('sortOrders');
+
+          tx.oncomplete = () => {
+            db.close();
+
+            const noteIds = keysRequest.result as T.EntityId[];
+            resolve([
+              new Map(
+                noteIds.map((noteId, i) => [noteId, entriesRequest.result[i]])
+              ),
+              orderRequest.result ?? null,
+            ]);
+          };
+          tx.onerror = () => {
+            db.close();
+            resolve([new Map(), null]);
+          };
+        })
+    )
+    .catch((): SavedSearchIndex => [new Map(), null]);
+
+/**
+ * Saves changes to the search index
+ *
+ * The entries and sort orders are saved together so that they always
+ * agree. Failing to save them is fine since the notes get indexed
+ * again when they start up without them.
+ *
+ * @param entries updated entries by note id
+ * @param removedNoteIds notes whose entries to delete
+ * @param sortOrders every note in each sort order
+ */
+export const saveSearchIndex = (
+  entries: [T.EntityId, SearchIndexEntry][],
+  removedNoteIds: T.EntityId[],
+  sortOrders: T.EntityId[][]
+): Promise<void> =>
+  openDB()
+    .then((db) => {
+      try {
+        const tx = db.transaction(['searchIndex', 'searchOrder'], 'readwrite');
+        const store = tx.objectStore('searchIndex');
+
+        entries.forEach(([noteId, entry]) => store.put(entry, noteId));
+        removedNoteIds.forEach((noteId) => store.delete(noteId));
+        tx.objectStore('searchOrder').put(sortOrders, 'sortOrders');
+
+        tx.oncomplete = tx.onerror = tx.onabort = () => db.close();
+      } catch (e) {
+        db.close();
+      }
+    })
+    .catch(() => undefined);
+
 export const middleware: S.Middleware = ({ dispatch, getState }) => (next) => {
   let worker: ReturnType<typeof setTimeout> | null = null;
 
@@ -0,0 +1,164 @@
+import actions from '../actions';
+import { noteTitleAndPreview } from '../../utils/note-utils';
+import {
+  allTasks,
+  noteTasks,
+  setTaskDone,
+  setTaskDue,
+} from '../../utils/tasks';
+
+import type * as A from '../action-types';
+import type * as S from '../';
+import type * as T from '../../types';
+
+// timers can't wait longer than this so later reminders get a fresh look
+const maxDelay = 24 * 60 * 60 * 1000;
+
+// wait for typing to settle before looking through the notes again
+const editDelay = 1000;
+
+export const middleware: S.Middleware = (store) => {
+  // reminders which came due before this point aren't shown again, so
+  // ones missed while the app was closed only appear as overdue
+  let lastChecked = Date.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const openTasks = () =>
+    Array.from(allTasks(store.getState().data.notes).values())
+      .flat()
+      .filter(({ due, isDone }) => due && !isDone);
+
+  const notify = (task: T.Task) => {
+    if ('granted' !== window.Notification?.permission) {
+      return;
+    }
+
+    const note = store.getState().data.notes.get(task.noteId);
+    const { title } = note ? noteTitleAndPreview(note) : { title: '' };
+
+    new Notification(task.text || 'Reminder', {
+      body: title,
+      tag: `${task.noteId}:${task.line}`,
+    }).onclick = () => store.dispatch(actions.ui.openNote(task.noteId));
+  };
+
+  const remind = () => {
+    const now = Date.now();
+    const tasks = openTasks();
+    const dueTasks = tasks.filter(
+      ({ due }) => due!.getTime() > lastChecked && due!.getTime() <= now
+    );
+    lastChecked = now;
+
+    if (dueTasks.length > 0) {
+      dueTasks.forEach(notify);
+      store.dispatch(actions.ui.remindTasks(dueTasks));
+      store.dispatch(actions.ui.showDialog('REMINDERS'));
+    }
+
+    const nextDue = tasks
+      .map(({ due }) => due!.getTime())
+      .filter((time) => time > now)
+      .sort((a, b) => a - b)[0];
+
+    if ('undefined' !== typeof nextDue) {
+      clearTimeout(timer!);
+      timer = setTimeout(remind, Math.min(nextDue - now, maxDelay));
+    }
+  };
+
+  const findReminder = (noteId: T.EntityId, line: number) =>
+    store
+      .getState()
+      .ui.reminders.find(
+        (task) => task.noteId === noteId && task.line === line
+      );
+
+  const editTask = (
+    reminder: T.Task | undefined,
+    update: (content: string) => string
+  ) => {
+    const note = reminder && store.getState().data.notes.get(reminder.noteId);
+    if (!reminder || !note) {
+      return;
+    }
+
+    // the note may have changed while the reminder was showing, in
+    // which case its line might now hold something else entirely
+    const task = noteTasks(reminder.noteId, note.content).find(
+      ({ line }) => line === reminder.line
+    );
+    if (
+      !task ||
+      task.text !== reminder.text ||
+      task.due?.getTime() !== reminder.due?.getTime()
+    ) {
+      return;
+    }
+
+    const content = update(note.content);
+    if (content !== note.content) {
+      store.dispatch(actions.data.editNote(reminder.noteId, { content }));
+    }
+  };
+
+  const closeWhenDone = () => {
+    const { dialogs, reminders } = store.getState().ui;
+
+    if (0 === reminders.length && 'REMINDERS' === dialogs[dialogs.length - 1]) {
+      store.dispatch(actions.ui.closeDialog());
+    }
+  };
+
+  // the notes loaded from the last session are already in the store,
+  // but nothing can be dispatched while the middleware is being set up
+  timer = setTimeout(remind, 0);
+
+  return (next: (action: A.ActionType) => A.ActionType) => (
+    action: A.ActionType
+  ) => {
+    switch (action.type) {
+      case 'CLOSE_DIALOG': {
+        // other dialogs can open on top of the reminders
+        const { dialogs } = store.getState().ui;
+        const result = next(action);
+        if ('REMINDERS' === dialogs[dialogs.length - 1]) {
+          store.dispatch(actions.ui.dismissReminders());
+        }
+        return result;
+      }
+
+      case 'COMPLETE_REMINDER': {
+        const reminder = findReminder(action.noteId, action.line);
+        const result = next(action);
+        editTask(reminder, (content) =>
+          setTaskDone(content, action.line, true)
+        );
+        closeWhenDone();
+        return result;
+      }
+
+      case 'SNOOZE_REMINDER': {
+        const reminder = findReminder(action.noteId, action.line);
+        const result = next(action);
+        editTask(reminder, (content) =>
+          setTaskDue(content, action.line, action.until)
+        );
+        closeWhenDone();
+        return result;
+      }
+    }
+
+    // schedules come from the note content
+    const prevNotes = store.getState().data.notes;
+    const result = next(action);
+    if (store.getState().data.notes !== prevNotes) {
+      clearTimeout(timer!);
+      timer = setTimeout(remind, editDelay);
+    }
+
+    return result;
+  };
+};
+
+export default middleware;
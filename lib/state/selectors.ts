@@ -1,3 +1,5 @@
+import { backlinksTo } from '../utils/note-links';
+
 import * as S from './';
 import * as T from '../types';
 
@@ -14,6 +16,41 @@ export const getTheme: S.Selector<'light' | 'dark'> = (state) =>
     ? state.browser.systemTheme
     : state.settings.theme;
 
+export const getSortType: S.Selector<T.SortType> = (state) =>
+  state.ui.searchSortType ?? state.settings.sortType;
+
+export const getSortReversed: S.Selector<boolean> = (state) =>
+  state.ui.searchSortReversed ?? state.settings.sortReversed;
+
+export const getSavedSearches: S.Selector<T.SavedSearch[]> = (state) =>
+  state.data.preferences.get('preferences-key' as T.EntityId)?.saved_searches ??
+  [];
+
+// looking through every note is slow, so this only does
+// it again once the notes or the opened note change
+let lastBacklinks: {
+  noteId: T.EntityId | null;
+  notes: Map<T.EntityId, T.Note>;
+  backlinks: T.EntityId[];
+} | null = null;
+
+export const getOpenedNoteBacklinks: S.Selector<T.EntityId[]> = (state) => {
+  const {
+    data: { notes },
+    ui: { openedNote: noteId },
+  } = state;
+
+  if (lastBacklinks?.noteId !== noteId || lastBacklinks?.notes !== notes) {
+    lastBacklinks = {
+      noteId,
+      notes,
+      backlinks: noteId ? backlinksTo(noteId, notes) : [],
+    };
+  }
+
+  return lastBacklinks.backlinks;
+};
+
 export const notesAreEqual = (
   a: T.Note | undefined,
   b: T.Note | undefined
@@ -69,3 +69,24 @@ export const toggleSpellCheck: A.ActionCreator<A.ToggleSpellcheck> = () => ({
 export const toggleAutoHideMenuBar: A.ActionCreator<A.ToggleAutoHideMenuBar> = () => ({
   type: 'TOGGLE_AUTO_HIDE_MENU_BAR',
 });
+
+export const setDailyNoteTag: A.ActionCreator<A.SetDailyNoteTag> = (
+  dailyNoteTag: string
+) => ({
+  type: 'SET_DAILY_NOTE_TAG',
+  dailyNoteTag,
+});
+
+export const setDailyNoteTitleFormat: A.ActionCreator<A.SetDailyNoteTitleFormat> = (
+  dailyNoteTitleFormat: string
+) => ({
+  type: 'SET_DAILY_NOTE_TITLE_FORMAT',
+  dailyNoteTitleFormat,
+});
+
+export const setTagRules: A.ActionCreator<A.SetTagRules> = (
+  tagRules: T.TagRule[]
+) => ({
+  type: 'SET_TAG_RULES',
+  tagRules,
+});
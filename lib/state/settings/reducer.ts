@@ -1,5 +1,7 @@
 import { combineReducers } from 'redux';
 
+import { defaultTitleFormat } from '../../utils/daily-notes';
+
 import * as A from '../action-types';
 import * as T from '../../types';
 
@@ -23,6 +25,27 @@ const autoHideMenuBar: A.Reducer<boolean> = (state = false, action) => {
   }
 };
 
+const dailyNoteTag: A.Reducer<string> = (state = 'journal', action) => {
+  switch (action.type) {
+    case 'SET_DAILY_NOTE_TAG':
+      return action.dailyNoteTag;
+    default:
+      return state;
+  }
+};
+
+const dailyNoteTitleFormat: A.Reducer<string> = (
+  state = defaultTitleFormat,
+  action
+) => {
+  switch (action.type) {
+    case 'SET_DAILY_NOTE_TITLE_FORMAT':
+      return action.dailyNoteTitleFormat;
+    default:
+      return state;
+  }
+};
+
 const focusModeEnabled: A.Reducer<boolean> = (state = false, action) => {
   switch (action.type) {
     case 'setFocusMode':
@@ -130,7 +153,9 @@ const sortType: A.Reducer<T.SortType> = (
 ) => {
   switch (action.type) {
     case 'setSortType':
-      return action.sortType;
+      // relevance only applies while searching
+      // so it never becomes the saved sort type
+      return 'relevance' === action.sortType ? state : action.sortType;
     default:
       return state;
   }
@@ -146,6 +171,15 @@ const spellCheckEnabled: A.Reducer<boolean> = (state = true, action) => {
   }
 };
 
+const tagRules: A.Reducer<T.TagRule[]> = (state = [], action) => {
+  switch (action.type) {
+    case 'SET_TAG_RULES':
+      return action.tagRules;
+    default:
+      return state;
+  }
+};
+
 const theme: A.Reducer<T.Theme> = (state = 'system', action) => {
   switch (action.type) {
     case 'setTheme':
@@ -158,6 +192,8 @@ const theme: A.Reducer<T.Theme> = (state = 'system', action) => {
 export default combineReducers({
   accountName,
   autoHideMenuBar,
+  dailyNoteTag,
+  dailyNoteTitleFormat,
   focusModeEnabled,
   fontSize,
   keyboardShortcuts,
@@ -169,5 +205,6 @@ export default combineReducers({
   sortTagsAlpha,
   sortType,
   spellCheckEnabled,
+  tagRules,
   theme,
 });
@@ -323,6 +323,10 @@ export const initSimperium = (
         const oldHash = t(action.oldTagName);
         const newHash = t(action.newTagName);
 
+        if (!prevState.data.tags.has(oldHash)) {
+          return result;
+        }
+
         if (newHash !== oldHash) {
           // only remove the old tag if its tag hash changed
           // and we had to create a new one
@@ -339,6 +343,25 @@ export const initSimperium = (
         return result;
       }
 
+      case 'MERGE_TAG': {
+        const fromHash = t(action.tagName);
+        const intoHash = t(action.intoTagName);
+        if (fromHash === intoHash) {
+          return result;
+        }
+
+        setTimeout(() => tagBucket.remove(fromHash), 10);
+
+        nextState.data.notes.forEach((note, noteId) => {
+          if (prevState.data.notes.get(noteId) !== note) {
+            queueNoteUpdate(noteId);
+          }
+        });
+
+        queueTagUpdate(intoHash);
+        return result;
+      }
+
       case 'REORDER_TAG':
         // if one tag changes order we likely have to synchronize all tags…
         nextState.data.tags.forEach((tag, tagHash) => {
@@ -346,6 +369,8 @@ export const initSimperium = (
         });
         return result;
 
+      case 'DELETE_SAVED_SEARCH':
+      case 'SAVE_SEARCH':
       case 'SET_ANALYTICS':
         queuePreferencesUpdate('preferences-key' as T.EntityId);
         return result;
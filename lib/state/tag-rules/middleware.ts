@@ -0,0 +1,59 @@
+import { ruleActions } from '../../utils/tag-rules';
+
+import type * as A from '../action-types';
+import type * as S from '../';
+import type * as T from '../../types';
+
+export const middleware: S.Middleware = (store) => {
+  const applyRules = (noteId: T.EntityId) => {
+    const {
+      data: { notes },
+      settings: { tagRules },
+    } = store.getState();
+    const note = notes.get(noteId);
+
+    if (!note || note.deleted || 0 === tagRules.length) {
+      return;
+    }
+
+    ruleActions(tagRules, noteId, note).forEach((ruleAction) =>
+      store.dispatch(ruleAction)
+    );
+  };
+
+  return (next: (action: A.ActionType) => A.ActionType) => (
+    action: A.ActionType
+  ) => {
+    switch (action.type) {
+      // CREATE_NOTE reaches this point as CREATE_NOTE_WITH_ID
+      case 'CREATE_NOTE_WITH_ID':
+      case 'IMPORT_NOTE_WITH_ID': {
+        const result = next(action);
+        applyRules(action.noteId);
+        return result;
+      }
+
+      // rules only look at the content so changing tags or
+      // other details of a note doesn't bring back removed tags
+      case 'EDIT_NOTE': {
+        const result = next(action);
+        if ('string' === typeof action.changes.content) {
+          applyRules(action.noteId);
+        }
+        return result;
+      }
+
+      case 'RUN_TAG_RULES': {
+        const result = next(action);
+        store.getState().data.notes.forEach((note, noteId) => {
+          applyRules(noteId);
+        });
+        return result;
+      }
+    }
+
+    return next(action);
+  };
+};
+
+export default middleware;
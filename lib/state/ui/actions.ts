@@ -9,14 +9,36 @@ export const closeNote: A.ActionCreator<A.CloseNote> = () => ({
   type: 'CLOSE_NOTE',
 });
 
+export const completeReminder: A.ActionCreator<A.CompleteReminder> = (
+  noteId: T.EntityId,
+  line: number
+) => ({
+  type: 'COMPLETE_REMINDER',
+  noteId,
+  line,
+});
+
 export const createNote: A.ActionCreator<A.CreateNote> = () => ({
   type: 'CREATE_NOTE',
 });
 
+export const createNoteFromTemplate: A.ActionCreator<A.CreateNoteFromTemplate> = (
+  templateId: T.EntityId,
+  title: string
+) => ({
+  type: 'CREATE_NOTE_FROM_TEMPLATE',
+  templateId,
+  title,
+});
+
 export const deleteOpenNoteForever: A.ActionCreator<A.DeleteOpenNoteForever> = () => ({
   type: 'DELETE_OPEN_NOTE_FOREVER',
 });
 
+export const dismissReminders: A.ActionCreator<A.DismissReminders> = () => ({
+  type: 'DISMISS_REMINDERS',
+});
+
 export const emptyTrash: A.ActionCreator<A.EmptyTrash> = () => ({
   type: 'EMPTY_TRASH',
 });
@@ -30,24 +52,74 @@ export const filterNotes: A.ActionCreator<A.FilterNotes> = (
   tagHashes,
 });
 
+export const findNotes: A.ActionCreator<A.FindNotes> = (
+  searchQuery: string
+) => ({
+  type: 'FIND_NOTES',
+  searchQuery,
+});
+
 export const focusSearchField: A.ActionCreator<A.FocusSearchField> = () => ({
   type: 'FOCUS_SEARCH_FIELD',
 });
 
+export const goToHeading: A.ActionCreator<A.GoToHeading> = (
+  noteId: T.EntityId,
+  line: number
+) => ({
+  type: 'GO_TO_HEADING',
+  noteId,
+  line,
+});
+
 export const logout: A.ActionCreator<A.Logout> = () => ({
   type: 'LOGOUT',
 });
 
+export const openAdjacentDailyNote: A.ActionCreator<A.OpenAdjacentDailyNote> = (
+  direction: 'previous' | 'next'
+) => ({
+  type: 'OPEN_ADJACENT_DAILY_NOTE',
+  direction,
+});
+
+export const openDailyNote: A.ActionCreator<A.OpenDailyNote> = () => ({
+  type: 'OPEN_DAILY_NOTE',
+});
+
 export const openNote: A.ActionCreator<A.OpenNote> = (noteId?: T.EntityId) => ({
   type: 'OPEN_NOTE',
   noteId,
 });
 
+export const openRevision: A.ActionCreator<A.OpenRevision> = (
+  noteId: T.EntityId,
+  version: number
+) => ({
+  type: 'OPEN_REVISION',
+  noteId,
+  version,
+});
+
+export const openSavedSearch: A.ActionCreator<A.OpenSavedSearch> = (
+  name: string
+) => ({
+  type: 'OPEN_SAVED_SEARCH',
+  name,
+});
+
 export const openTag: A.ActionCreator<A.OpenTag> = (tagName: T.TagName) => ({
   type: 'OPEN_TAG',
   tagName,
 });
 
+export const remindTasks: A.ActionCreator<A.RemindTasks> = (
+  tasks: T.Task[]
+) => ({
+  type: 'REMIND_TASKS',
+  tasks,
+});
+
 export const restoreOpenNote: A.ActionCreator<A.RestoreOpenNote> = () => ({
   type: 'RESTORE_OPEN_NOTE',
 });
@@ -64,6 +136,15 @@ export const selectTrash: A.ActionCreator<A.SelectTrash> = () => ({
   type: 'SELECT_TRASH',
 });
 
+export const setCurrentHeading: A.ActionCreator<A.SetCurrentHeading> = (
+  noteId: T.EntityId,
+  line: number | null
+) => ({
+  type: 'SET_CURRENT_HEADING',
+  noteId,
+  line,
+});
+
 export const showAllNotes: A.ActionCreator<A.ShowAllNotes> = () => ({
   type: 'SHOW_ALL_NOTES',
 });
@@ -75,6 +156,21 @@ export const showDialog: A.ActionCreator<A.ShowDialog> = (
   dialog,
 });
 
+export const showTasks: A.ActionCreator<A.ShowTasks> = () => ({
+  type: 'SHOW_TASKS',
+});
+
+export const snoozeReminder: A.ActionCreator<A.SnoozeReminder> = (
+  noteId: T.EntityId,
+  line: number,
+  until: Date
+) => ({
+  type: 'SNOOZE_REMINDER',
+  noteId,
+  line,
+  until,
+});
+
 export const storeRevisions: A.ActionCreator<A.StoreRevisions> = (
   noteId: T.EntityId,
   revisions: T.NoteEntity[]
@@ -113,6 +209,10 @@ export const toggleNoteInfo: A.ActionCreator<A.ToggleNoteInfo> = () => ({
   type: 'NOTE_INFO_TOGGLE',
 });
 
+export const toggleOutline: A.ActionCreator<A.ToggleOutline> = () => ({
+  type: 'OUTLINE_TOGGLE',
+});
+
 export const toggleTagDrawer: A.ActionCreator<A.ToggleTagDrawer> = (
   show: boolean
 ) => ({
@@ -1,5 +1,6 @@
 import * as A from '../action-types';
 import * as S from '../';
+import { getSavedSearches } from '../selectors';
 
 export const middleware: S.Middleware = (store) => (
   next: (action: A.ActionType) => any
@@ -59,19 +60,43 @@ export const middleware: S.Middleware = (store) => (
       });
     }
 
-    case 'SHOW_ALL_NOTES':
-    case 'SELECT_TRASH':
-      // this middleware runs after the search middleware which is important
-      // because we're reading the new search results which came as a result
-      // of changing the note filter from trash or a tag to "all notes" or
-      // from "all notes" to trash
-      return next({
-        ...action,
-        meta: {
-          ...action.meta,
-          nextNoteToOpen: action.meta?.searchResults?.noteIds[0] ?? null,
-        },
+    // revisions can be opened from search results
+    // too, not only from the opened note's history
+    case 'OPEN_REVISION': {
+      if (store.getState().ui.openedNote !== action.noteId) {
+        store.dispatch({ type: 'OPEN_NOTE', noteId: action.noteId });
+      }
+
+      if (!store.getState().ui.showRevisions) {
+        store.dispatch({ type: 'REVISIONS_TOGGLE' });
+      }
+
+      return next(action);
+    }
+
+    case 'OPEN_SAVED_SEARCH': {
+      const savedSearch = getSavedSearches(store.getState()).find(
+        ({ name }) => name === action.name
+      );
+      if (!savedSearch) {
+        return;
+      }
+
+      // these go through every middleware so that the search updates;
+      // the saved sort only lasts until the search changes, leaving the
+      // sort in the settings as it was
+      store.dispatch({ type: 'SHOW_ALL_NOTES' });
+      store.dispatch({ type: 'SEARCH', searchQuery: savedSearch.query });
+      store.dispatch({
+        type: 'SET_SEARCH_SORT_TYPE',
+        sortType: savedSearch.sortType,
+      });
+      store.dispatch({
+        type: 'SET_SEARCH_SORT_REVERSED',
+        sortReversed: savedSearch.sortReversed,
       });
+      return;
+    }
 
     case 'REQUEST_NOTIFICATIONS':
       if (
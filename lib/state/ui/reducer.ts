@@ -1,6 +1,7 @@
 import { combineReducers } from 'redux';
 
-import { tagHashOf } from '../../utils/tag-hash';
+import { getTerms } from '../../utils/filter-notes';
+import { renamedTagHash, tagHashOf } from '../../utils/tag-hash';
 import {
   withCheckboxCharacters,
   withCheckboxSyntax,
@@ -86,6 +87,27 @@ const editorSelection: A.Reducer<Map<
   }
 };
 
+// the heading section scrolled to in the open note's editor or preview
+const currentHeading: A.Reducer<{
+  noteId: T.EntityId;
+  line: number;
+} | null> = (state = null, action) => {
+  switch (action.type) {
+    case 'SET_CURRENT_HEADING':
+      return null === action.line
+        ? null
+        : { noteId: action.noteId, line: action.line };
+
+    case 'CREATE_NOTE_WITH_ID':
+    case 'OPEN_NOTE':
+    case 'SELECT_NOTE':
+      return null;
+
+    default:
+      return state;
+  }
+};
+
 const dialogs: A.Reducer<T.DialogType[]> = (state = [], action) => {
   switch (action.type) {
     case 'CLOSE_DIALOG':
@@ -138,6 +160,19 @@ const filteredNotes: A.Reducer<T.EntityId[]> = (
   return action.meta.searchResults.noteIds;
 };
 
+const foundNotes: A.Reducer<T.EntityId[]> = (
+  state = emptyList as T.EntityId[],
+  action
+) => {
+  switch (action.type) {
+    case 'SET_FOUND_NOTES':
+      return action.noteIds;
+
+    default:
+      return state;
+  }
+};
+
 const hasLoadedNotes: A.Reducer<boolean> = (state = false, action) => {
   switch (action.type) {
     case 'FILTER_NOTES':
@@ -148,6 +183,33 @@ const hasLoadedNotes: A.Reducer<boolean> = (state = false, action) => {
   }
 };
 
+// a new object for every request so that going to the same heading twice
+// still scrolls the editor back to it
+const headingTarget: A.Reducer<{ noteId: T.EntityId; line: number } | null> = (
+  state = null,
+  action
+) =>
+  'GO_TO_HEADING' === action.type
+    ? { noteId: action.noteId, line: action.line }
+    : state;
+
+// what the last find and replace changed, so that it can be undone
+const lastReplacement: A.Reducer<T.NoteReplacement[] | null> = (
+  state = null,
+  action
+) => {
+  switch (action.type) {
+    case 'REPLACE_IN_NOTES':
+      return action.replacements;
+
+    case 'UNDO_REPLACE_IN_NOTES':
+      return null;
+
+    default:
+      return state;
+  }
+};
+
 const openedNote: A.Reducer<T.EntityId | null> = (state = null, action) => {
   switch (action.type) {
     case 'CLOSE_NOTE':
@@ -190,6 +252,14 @@ const openedTag: A.Reducer<T.TagHash | null> = (state = null, action) => {
       return null;
     case 'OPEN_TAG':
       return tagHashOf(action.tagName);
+    case 'MERGE_TAG':
+      return tagHashOf(action.tagName) === state
+        ? tagHashOf(action.intoTagName)
+        : state;
+    case 'RENAME_TAG':
+      return state
+        ? renamedTagHash(state, action.oldTagName, action.newTagName)
+        : state;
     case 'TRASH_TAG':
       return tagHashOf(action.tagName) === state ? null : state;
     default:
@@ -218,6 +288,52 @@ const unsyncedNoteIds: A.Reducer<T.EntityId[]> = (
   action
 ) => ('SET_UNSYNCED_NOTE_IDS' === action.type ? action.noteIds : state);
 
+const reminders: A.Reducer<T.Task[]> = (
+  state = emptyList as T.Task[],
+  action
+) => {
+  switch (action.type) {
+    case 'REMIND_TASKS':
+      return [
+        ...state.filter(
+          ({ noteId, line }) =>
+            !action.tasks.some(
+              (task) => task.noteId === noteId && task.line === line
+            )
+        ),
+        ...action.tasks,
+      ];
+
+    case 'COMPLETE_REMINDER':
+    case 'SNOOZE_REMINDER':
+      return state.filter(
+        ({ noteId, line }) => noteId !== action.noteId || line !== action.line
+      );
+
+    case 'DISMISS_REMINDERS':
+      return emptyList as T.Task[];
+
+    default:
+      return state;
+  }
+};
+
+const revisionMatches: A.Reducer<Map<T.EntityId, number[]>> = (
+  state = new Map(),
+  action
+) => {
+  if ('undefined' === typeof action.meta?.searchResults) {
+    return state;
+  }
+
+  return action.meta.searchResults.revisionMatches;
+};
+
+const savedSearchCounts: A.Reducer<Map<string, number>> = (
+  state = new Map(),
+  action
+) => ('SET_SAVED_SEARCH_COUNTS' === action.type ? action.counts : state);
+
 const searchQuery: A.Reducer<string> = (state = '', action) => {
   switch (action.type) {
     case 'CREATE_NOTE':
@@ -229,6 +345,49 @@ const searchQuery: A.Reducer<string> = (state = '', action) => {
   }
 };
 
+/**
+ * Sort direction overriding the saved one in a saved search
+ *
+ * Like the sort type, it applies until the search ends.
+ */
+export const searchSortReversed: A.Reducer<boolean | null> = (
+  state = null,
+  action
+) => {
+  switch (action.type) {
+    case 'SEARCH':
+      return getTerms(action.searchQuery).length > 0 ? state : null;
+    case 'SET_SEARCH_SORT_REVERSED':
+      return action.sortReversed;
+    default:
+      return state;
+  }
+};
+
+/**
+ * Sort type overriding the saved one while searching
+ *
+ * Searching for text starts out sorted by relevance and saved
+ * searches with their own sort type, but picking a different sort
+ * type applies until the search ends, without changing the saved
+ * one (see the search middleware).
+ */
+export const searchSortType: A.Reducer<T.SortType | null> = (
+  state = null,
+  action
+) => {
+  switch (action.type) {
+    case 'SEARCH':
+      return getTerms(action.searchQuery).length > 0
+        ? state ?? 'relevance'
+        : null;
+    case 'SET_SEARCH_SORT_TYPE':
+      return action.sortType;
+    default:
+      return state;
+  }
+};
+
 const simperiumConnected: A.Reducer<boolean> = (state = false, action) =>
   'SIMPERIUM_CONNECTION_STATUS_TOGGLE' === action.type
     ? action.simperiumConnected
@@ -255,6 +414,7 @@ const showNavigation: A.Reducer<boolean> = (state = false, action) => {
     case 'OPEN_TAG':
     case 'SELECT_TRASH':
     case 'SHOW_ALL_NOTES':
+    case 'SHOW_TASKS':
       return false;
     case 'SHOW_DIALOG':
       if (action.dialog === 'SETTINGS') {
@@ -266,6 +426,9 @@ const showNavigation: A.Reducer<boolean> = (state = false, action) => {
   }
 };
 
+const showOutline: A.Reducer<boolean> = (state = false, action) =>
+  'OUTLINE_TOGGLE' === action.type ? !state : state;
+
 const showRevisions: A.Reducer<boolean> = (state = false, action) => {
   switch (action.type) {
     case 'REVISIONS_TOGGLE':
@@ -295,6 +458,22 @@ const showTrash: A.Reducer<boolean> = (state = false, action) => {
   }
 };
 
+const showTasks: A.Reducer<boolean> = (state = false, action) => {
+  switch (action.type) {
+    case 'SHOW_TASKS':
+      return true;
+    case 'CREATE_NOTE_WITH_ID':
+    case 'OPEN_NOTE':
+    case 'OPEN_TAG':
+    case 'SELECT_NOTE':
+    case 'SELECT_TRASH':
+    case 'SHOW_ALL_NOTES':
+      return false;
+    default:
+      return state;
+  }
+};
+
 const tagSuggestions: A.Reducer<T.TagHash[]> = (
   state = emptyList as T.TagHash[],
   action
@@ -307,20 +486,31 @@ const tagSuggestions: A.Reducer<T.TagHash[]> = (
 };
 
 export default combineReducers({
+  currentHeading,
   dialogs,
   editMode,
   editorSelection,
   editingTags,
   filteredNotes,
+  foundNotes,
   hasLoadedNotes,
+  headingTarget,
+  lastReplacement,
   openedNote,
   openedRevision,
   openedTag,
+  reminders,
+  revisionMatches,
+  savedSearchCounts,
   searchQuery,
+  searchSortReversed,
+  searchSortType,
   showNavigation,
   showNoteInfo,
   showNoteList,
+  showOutline,
   showRevisions,
+  showTasks,
   showTrash,
   simperiumConnected,
   tagSuggestions,
@@ -29,6 +29,7 @@ type StateProps = {
   keyboardShortcuts: boolean;
   noteId: T.EntityId;
   note: T.Note;
+  tagMetadata: Map<T.TagHash, T.TagMetadata>;
 };
 
 type DispatchProps = {
@@ -224,7 +225,7 @@ export class TagField extends Component<Props, OwnState> {
   };
 
   render() {
-    const { note } = this.props;
+    const { note, tagMetadata } = this.props;
     const { selectedTag, showEmailTooltip, tagInput } = this.state;
 
     return (
@@ -244,6 +245,7 @@ export class TagField extends Component<Props, OwnState> {
           {note?.tags.filter(negate(isEmailTag)).map((tag) => (
             <TagChip
               key={tag}
+              metadata={tagMetadata.get(tagHashOf(tag))}
               tagName={tag}
               selected={tag === selectedTag}
               onSelect={this.selectTag}
@@ -279,6 +281,7 @@ const mapStateToProps: S.MapState<StateProps> = (state) => ({
   keyboardShortcuts: state.settings.keyboardShortcuts,
   noteId: state.ui.openedNote,
   note: state.data.notes.get(state.ui.openedNote),
+  tagMetadata: state.data.tagMetadata,
 });
 
 export default connect(mapStateToProps, {
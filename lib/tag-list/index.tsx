@@ -8,24 +8,37 @@ import {
   SortEndHandler,
 } from 'react-sortable-hoc';
 import isEmailTag from '../utils/is-email-tag';
+import {
+  isTagOrDescendant,
+  tagHashOf as t,
+  tagPathOf,
+} from '../utils/tag-hash';
 import PanelTitle from '../components/panel-title';
+import TagMarker from '../components/tag-marker';
+import ChevronRightIcon from '../icons/chevron-right';
 import ReorderIcon from '../icons/reorder';
 import TrashIcon from '../icons/trash';
 import TagListInput from './input';
-import { openTag, toggleTagEditing } from '../state/ui/actions';
+import { tagRows } from './tag-tree';
+import { openTag, showDialog, toggleTagEditing } from '../state/ui/actions';
 
 import type * as S from '../state';
 import type * as T from '../types';
+import type { TagRow } from './tag-tree';
 
 type StateProps = {
   editingTags: boolean;
+  noteTags: Map<T.TagHash, Set<T.EntityId>>;
   openedTag: T.TagHash | null;
   sortTagsAlpha: boolean;
+  tagMetadata: Map<T.TagHash, T.TagMetadata>;
   tags: Map<T.TagHash, T.Tag>;
 };
 
 type DispatchProps = {
+  mergeTag: (tagName: T.TagName, intoTagName: T.TagName) => any;
   onEditTags: () => any;
+  onManageTags: () => any;
   openTag: (tagName: T.TagName) => any;
   renameTag: (oldTagName: T.TagName, newTagName: T.TagName) => any;
   reorderTag: (tagName: T.TagName, newIndex: number) => any;
@@ -41,35 +54,75 @@ const SortableTag = SortableElement(
     allowReordering,
     editingActive,
     isSelected,
+    mergeTag,
+    metadata,
     renameTag,
+    row: { depth, hasChildren, isExpanded, label, tag, tagName },
     selectTag,
+    toggleExpanded,
     trashTag,
-    value: [tagHash, tag],
   }: {
     allowReordering: boolean;
     editingActive: boolean;
     isSelected: boolean;
+    mergeTag: (tagName: T.TagName) => any;
+    metadata?: T.TagMetadata;
     renameTag: (oldTagName: T.TagName, newTagName: T.TagName) => any;
+    row: TagRow;
     selectTag: (tagName: T.TagName) => any;
+    toggleExpanded: () => any;
     trashTag: (tagName: T.TagName) => any;
-    value: [T.TagHash, T.Tag];
   }) => (
-    <li key={tagHash} className="tag-list-item" data-tag-name={tag.name}>
-      {editingActive && <TrashIcon onClick={() => trashTag(tag.name)} />}
+    <li
+      className="tag-list-item"
+      data-tag-name={tagName}
+      style={{ paddingInlineStart: `${depth * 16}px` }}
+    >
+      {editingActive && tag && <TrashIcon onClick={() => trashTag(tagName)} />}
+      {hasChildren ? (
+        <button
+          aria-expanded={isExpanded}
+          aria-label={`${isExpanded ? 'Collapse' : 'Expand'} ${tagName}`}
+          className={classNames('tag-list-toggle button button-borderless', {
+            'is-expanded': isExpanded,
+          })}
+          onClick={toggleExpanded}
+          type="button"
+        >
+          <ChevronRightIcon />
+        </button>
+      ) : (
+        depth > 0 && <span className="tag-list-toggle" />
+      )}
+      <TagMarker metadata={metadata} />
       <TagListInput
         editable={editingActive}
         isSelected={isSelected}
-        onClick={() => !editingActive && selectTag(tag.name)}
+        onClick={() => !editingActive && selectTag(tagName)}
         onDone={(event) => {
-          const newTagName = event.target?.value as T.TagName;
+          const newLabel = event.target?.value;
 
-          if (newTagName && newTagName !== tag.name) {
-            renameTag(tag.name, newTagName);
+          // only the last level is shown so the rest of the name stays put
+          if (newLabel && newLabel !== label) {
+            const path = tagPathOf(tagName);
+            renameTag(
+              tagName,
+              [...path.slice(0, -1), newLabel].join('/') as T.TagName
+            );
           }
         }}
-        value={tag.name}
+        value={label}
       />
-      {editingActive && allowReordering && <TagHandle />}
+      {editingActive && tag && (
+        <button
+          className="tag-list-merge-button button button-borderless theme-color-fg-dim"
+          onClick={() => mergeTag(tagName)}
+          type="button"
+        >
+          Merge…
+        </button>
+      )}
+      {editingActive && allowReordering && tag && <TagHandle />}
     </li>
   )
 );
@@ -78,56 +131,196 @@ const SortableTagList = SortableContainer(
   ({
     editingTags,
     items,
+    mergeTheTag,
     openedTag,
     openTag,
     renameTheTag,
     sortTagsAlpha,
+    tagMetadata,
+    toggleExpanded,
     trashTheTag,
   }: {
     editingTags: boolean;
-    items: [T.TagHash, T.Tag][];
+    items: TagRow[];
+    mergeTheTag: (tagName: T.TagName) => any;
     openedTag: T.TagHash | null;
     openTag: (tagName: T.TagName) => any;
     renameTheTag: (oldTagName: T.TagName, newTagName: T.TagName) => any;
     sortTagsAlpha: boolean;
+    tagMetadata: Map<T.TagHash, T.TagMetadata>;
+    toggleExpanded: (tagHash: T.TagHash) => any;
     trashTheTag: (tagName: T.TagName) => any;
   }) => (
     <ul className="tag-list-items">
-      {items.map((value, index) => (
+      {items.map((row, index) => (
         <SortableTag
-          key={value[0]}
+          key={row.tagHash}
           allowReordering={!sortTagsAlpha}
+          disabled={!row.tag}
           editingActive={editingTags}
           index={index}
-          isSelected={openedTag === value[0]}
+          isSelected={openedTag === row.tagHash}
+          mergeTag={mergeTheTag}
+          metadata={tagMetadata.get(row.tagHash)}
           renameTag={renameTheTag}
+          row={row}
           selectTag={openTag}
+          toggleExpanded={() => toggleExpanded(row.tagHash)}
           trashTag={trashTheTag}
-          value={value}
         />
       ))}
     </ul>
   )
 );
 
-export class TagList extends Component<Props> {
+type OwnState = {
+  collapsed: Set<T.TagHash>;
+  mergeInto: T.TagHash | null;
+  merging: T.TagName | null;
+};
+
+export class TagList extends Component<Props, OwnState> {
   static displayName = 'TagList';
 
+  state: OwnState = {
+    collapsed: new Set(),
+    mergeInto: null,
+    merging: null,
+  };
+
+  componentDidUpdate(prevProps: Props) {
+    if (prevProps.editingTags && !this.props.editingTags) {
+      this.stopMerging();
+    }
+  }
+
+  getSortedTags = (): [T.TagHash, T.Tag][] => {
+    const { sortTagsAlpha, tags } = this.props;
+
+    return Array.from(tags)
+      .filter(([_, { name }]) => !isEmailTag(name))
+      .sort(([aId, aTag], [bId, bTag]) =>
+        sortTagsAlpha
+          ? aTag.name.localeCompare(bTag.name)
+          : 'undefined' !== typeof aTag.index &&
+            'undefined' !== typeof bTag.index
+          ? aTag.index - bTag.index
+          : 'undefined' === typeof aTag.index
+          ? 1
+          : -1
+      );
+  };
+
   reorderTag: SortEndHandler = ({ newIndex, nodes, oldIndex }) => {
     const tagName = nodes[oldIndex].node.dataset.tagName;
+    const sortedTags = this.getSortedTags();
+    const rows = tagRows(sortedTags, this.state.collapsed);
+
+    // rows include nested tags and levels of them which aren't tags,
+    // so move the tag to where the first tag of the row it dropped on is
+    const target = rows[newIndex].tagHash;
+    const tagIndex = sortedTags.findIndex(([tagHash]) =>
+      isTagOrDescendant(tagHash, target)
+    );
+
+    this.props.reorderTag(tagName, Math.max(0, tagIndex));
+  };
+
+  startMerging = (tagName: T.TagName) =>
+    this.setState({ mergeInto: null, merging: tagName });
 
-    this.props.reorderTag(tagName, newIndex);
+  stopMerging = () => this.setState({ mergeInto: null, merging: null });
+
+  mergeTag = () => {
+    const { mergeInto, merging } = this.state;
+    const intoTag = mergeInto && this.props.tags.get(mergeInto);
+
+    if (merging && intoTag) {
+      this.props.mergeTag(merging, intoTag.name);
+    }
+    this.stopMerging();
   };
 
+  renderMerge(sortedTags: [T.TagHash, T.Tag][]) {
+    const { noteTags } = this.props;
+    const { mergeInto, merging } = this.state;
+
+    if (!merging) {
+      return null;
+    }
+
+    const mergingHash = t(merging);
+    const noteCount = noteTags.get(mergingHash)?.size ?? 0;
+    const intoTag = mergeInto && this.props.tags.get(mergeInto);
+
+    return (
+      <div className="tag-list-merge theme-color-border">
+        <label className="tag-list-merge-label">
+          {`Merge “${merging}” into`}
+          <select
+            className="tag-list-merge-select theme-color-bg theme-color-fg theme-color-border"
+            onChange={({ target: { value } }) =>
+              this.setState({ mergeInto: (value || null) as T.TagHash | null })
+            }
+            value={mergeInto ?? ''}
+          >
+            <option value="">Choose a tag…</option>
+            {sortedTags
+              .filter(([tagHash]) => tagHash !== mergingHash)
+              .map(([tagHash, tag]) => (
+                <option key={tagHash} value={tagHash}>
+                  {tag.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        {intoTag && (
+          <p className="tag-list-merge-summary theme-color-fg-dim">
+            {`${noteCount} ${
+              1 === noteCount ? 'note' : 'notes'
+            } will be tagged “${intoTag.name}” instead.`}
+          </p>
+        )}
+        <div className="tag-list-merge-actions">
+          <button
+            className="button button-borderless"
+            onClick={this.stopMerging}
+            type="button"
+          >
+            Cancel
+          </button>
+          <button
+            className="button button-primary"
+            disabled={!intoTag}
+            onClick={this.mergeTag}
+            type="button"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  toggleExpanded = (tagHash: T.TagHash) =>
+    this.setState(({ collapsed }) => {
+      const next = new Set(collapsed);
+      if (!next.delete(tagHash)) {
+        next.add(tagHash);
+      }
+      return { collapsed: next };
+    });
+
   render() {
     const {
       editingTags,
       onEditTags,
+      onManageTags,
       openTag,
       openedTag,
       renameTag,
       sortTagsAlpha,
-      tags,
+      tagMetadata,
       trashTag,
     } = this.props;
 
@@ -135,31 +328,31 @@ export class TagList extends Component<Props> {
       'tag-list-editing': this.props.editingTags,
     });
 
-    const sortedTags = Array.from(tags)
-      .filter(([_, { name }]) => !isEmailTag(name))
-      .sort(([aId, aTag], [bId, bTag]) =>
-        sortTagsAlpha
-          ? aTag.name.localeCompare(bTag.name)
-          : 'undefined' !== typeof aTag.index &&
-            'undefined' !== typeof bTag.index
-          ? aTag.index - bTag.index
-          : 'undefined' === typeof aTag.index
-          ? 1
-          : -1
-      );
+    const sortedTags = this.getSortedTags();
+    const rows = tagRows(sortedTags, this.state.collapsed);
 
     return (
       <div className={classes}>
         <div className="tag-list-title">
           <PanelTitle headingLevel={2}>Tags</PanelTitle>
-          {sortedTags.length > 0 && (
-            <button
-              className="tag-list-edit-toggle button button-borderless"
-              tabIndex={0}
-              onClick={onEditTags}
-            >
-              {editingTags ? 'Done' : 'Edit'}
-            </button>
+          {rows.length > 0 && (
+            <div className="tag-list-title-actions">
+              {editingTags && (
+                <button
+                  className="tag-list-manage button button-borderless"
+                  onClick={onManageTags}
+                >
+                  Manage…
+                </button>
+              )}
+              <button
+                className="tag-list-edit-toggle button button-borderless"
+                tabIndex={0}
+                onClick={onEditTags}
+              >
+                {editingTags ? 'Done' : 'Edit'}
+              </button>
+            </div>
           )}
         </div>
         <SortableTagList
@@ -167,13 +360,17 @@ export class TagList extends Component<Props> {
           lockAxis="y"
           openedTag={openedTag}
           openTag={openTag}
-          items={sortedTags}
+          items={rows}
+          mergeTheTag={this.startMerging}
           renameTheTag={renameTag}
           sortTagsAlpha={sortTagsAlpha}
+          tagMetadata={tagMetadata}
           onSortEnd={this.reorderTag}
+          toggleExpanded={this.toggleExpanded}
           useDragHandle={true}
           trashTheTag={trashTag}
         />
+        {editingTags && this.renderMerge(sortedTags)}
       </div>
     );
   }
@@ -185,13 +382,21 @@ const mapStateToProps: S.MapState<StateProps> = ({
   ui: { editingTags, openedTag },
 }) => ({
   editingTags,
+  noteTags: data.noteTags,
   sortTagsAlpha,
+  tagMetadata: data.tagMetadata,
   tags: data.tags,
   openedTag,
 });
 
 const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  mergeTag: (tagName, intoTagName) => ({
+    type: 'MERGE_TAG',
+    tagName,
+    intoTagName,
+  }),
   onEditTags: toggleTagEditing,
+  onManageTags: () => showDialog('TAGS'),
   openTag: openTag,
   renameTag: (oldTagName, newTagName) => ({
     type: 'RENAME_TAG',
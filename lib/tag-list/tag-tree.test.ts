@@ -0,0 +1,47 @@
+import { tagRows } from './tag-tree';
+import { tagHashOf } from '../utils/tag-hash';
+
+import type * as T from '../types';
+
+const tags = (...names: string[]): [T.TagHash, T.Tag][] =>
+  names.map((name) => [
+    tagHashOf(name as T.TagName),
+    { name: name as T.TagName },
+  ]);
+
+const hash = (name: string) => tagHashOf(name as T.TagName);
+
+describe('tagRows', () => {
+  it('nests tags beneath their ancestors', () => {
+    const rows = tagRows(tags('work', 'home', 'work/clientA'), new Set());
+
+    expect(rows.map(({ depth, label }) => [depth, label])).toEqual([
+      [0, 'work'],
+      [1, 'clientA'],
+      [0, 'home'],
+    ]);
+    expect(rows[0].hasChildren).toBe(true);
+    expect(rows[1].tagName).toBe('work/clientA');
+  });
+
+  it('adds rows for levels which are not tags themselves', () => {
+    const rows = tagRows(tags('work/clientA', 'work/clientB'), new Set());
+
+    expect(rows.map(({ label, tag }) => [label, tag?.name])).toEqual([
+      ['work', undefined],
+      ['clientA', 'work/clientA'],
+      ['clientB', 'work/clientB'],
+    ]);
+    expect(rows[0].tagHash).toBe(hash('work'));
+  });
+
+  it('hides the nested tags of collapsed levels', () => {
+    const rows = tagRows(
+      tags('work', 'work/clientA', 'work/clientA/2020', 'home'),
+      new Set([hash('work/clientA')])
+    );
+
+    expect(rows.map(({ label }) => label)).toEqual(['work', 'clientA', 'home']);
+    expect(rows[1].isExpanded).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { tagHashOf as t, tagPathOf } from '../utils/tag-hash';
+
+import type * as T from '../types';
+
+export type TagRow = {
+  depth: number;
+  hasChildren: boolean;
+  isExpanded: boolean;
+  label: string;
+  tag: T.Tag | null;
+  tagHash: T.TagHash;
+  tagName: T.TagName;
+};
+
+type TagNode = {
+  children: TagNode[];
+  label: string;
+  tag: T.Tag | null;
+  tagHash: T.TagHash;
+  tagName: T.TagName;
+};
+
+/**
+ * Arranges nested tags into the rows of a collapsible tree
+ *
+ * Levels appear where the first tag beneath them appears in the given
+ * order, so siblings keep the order the tags are sorted in. Levels which
+ * only exist through their nested tags, e.g. `work` for `work/clientA`,
+ * get rows without a tag of their own.
+ *
+ * @param sortedTags tags in the order they should be listed
+ * @param collapsed levels whose nested tags are hidden
+ * @returns visible rows from top to bottom
+ */
+export const tagRows = (
+  sortedTags: [T.TagHash, T.Tag][],
+  collapsed: Set<T.TagHash>
+): TagRow[] => {
+  const root: TagNode[] = [];
+  const nodes = new Map<T.TagHash, TagNode>();
+
+  sortedTags.forEach(([tagHash, tag]) => {
+    const path = tagPathOf(tag.name);
+    let siblings = root;
+
+    path.forEach((label, depth) => {
+      const isTag = depth === path.length - 1;
+      const levelName = path.slice(0, depth + 1).join('/') as T.TagName;
+      const levelHash = isTag ? tagHash : t(levelName);
+
+      let node = nodes.get(levelHash);
+      if (!node) {
+        node = {
+          children: [],
+          label,
+          tag: null,
+          tagHash: levelHash,
+          tagName: levelName,
+        };
+        nodes.set(levelHash, node);
+        siblings.push(node);
+      }
+
+      if (isTag) {
+        node.label = label;
+        node.tag = tag;
+        node.tagName = tag.name;
+      }
+
+      siblings = node.children;
+    });
+  });
+
+  const rows: TagRow[] = [];
+  const addRows = (level: TagNode[], depth: number) =>
+    level.forEach(({ children, label, tag, tagHash, tagName }) => {
+      const isExpanded = !collapsed.has(tagHash);
+      rows.push({
+        depth,
+        hasChildren: children.length > 0,
+        isExpanded,
+        label,
+        tag,
+        tagHash,
+        tagName,
+      });
+
+      if (isExpanded) {
+        addRows(children, depth + 1);
+      }
+    });
+  addRows(root, 0);
+
+  return rows;
+};
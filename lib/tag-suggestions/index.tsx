@@ -1,12 +1,14 @@
 import React, { Component, Fragment } from 'react';
 import { connect } from 'react-redux';
 import { search } from '../state/ui/actions';
+import { searchQualifiers } from '../utils/filter-notes';
 import { tagHashOf } from '../utils/tag-hash';
 
 import type * as S from '../state';
 import type * as T from '../types';
 
 type StateProps = {
+  filteredQualifiers: string[];
   filteredTags: T.TagHash[];
   searchQuery: string;
   tags: Map<T.TagHash, T.Tag>;
@@ -30,15 +32,36 @@ export class TagSuggestions extends Component<Props> {
     let querystring = newQuery.join(' ');
 
     // add a space at the end so the user can immediately start typing
-    querystring += ' ';
+    // unless the suggestion still needs a value, like `created:`
+    if (!querystring.endsWith(':')) {
+      querystring += ' ';
+    }
     onSearch(querystring);
   };
 
   render() {
-    const { filteredTags, tags } = this.props;
+    const { filteredQualifiers, filteredTags, tags } = this.props;
 
     return (
       <Fragment>
+        {filteredQualifiers.length > 0 && (
+          <div className="tag-suggestions">
+            <div className="note-list-header">Search by Filter</div>
+            <ul className="tag-suggestions-list">
+              {filteredQualifiers.map((qualifier) => (
+                <li
+                  key={qualifier}
+                  className="tag-suggestion-row"
+                  onClick={() => this.updateSearch(qualifier)}
+                >
+                  <div className="tag-suggestion" title={qualifier}>
+                    {qualifier}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {filteredTags.length > 0 && (
           <div className="tag-suggestions">
             <div className="note-list-header">Search by Tag</div>
@@ -128,10 +151,30 @@ export const filterTags = (
     .slice(0, 5);
 };
 
+/**
+ * Suggests search qualifiers such as `is:pinned` for the last word in the query
+ *
+ * @param query current search query
+ * @returns qualifiers starting with the last word, but not already complete
+ */
+export const filterQualifiers = (query: string): string[] => {
+  const term = query.trim().split(' ').pop()?.toLocaleLowerCase();
+
+  // single letters would match nearly every search
+  if (!term || term.length < 2) {
+    return [];
+  }
+
+  return searchQualifiers.filter(
+    (qualifier) => qualifier !== term && qualifier.startsWith(term)
+  );
+};
+
 const mapStateToProps: S.MapState<StateProps> = ({
   data,
   ui: { searchQuery, tagSuggestions },
 }) => ({
+  filteredQualifiers: filterQualifiers(searchQuery),
   filteredTags: tagSuggestions,
   searchQuery,
   tags: data.tags,
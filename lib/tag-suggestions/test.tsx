@@ -1,4 +1,4 @@
-import { filterTags } from './';
+import { filterQualifiers, filterTags } from './';
 import { tagHashOf as th } from '../utils/tag-hash';
 
 import { TagHash as E, TagName as TN, Tag as T } from '../types';
@@ -121,3 +121,20 @@ it('falls-back to plain text matching if the tag: prefix is incomplete', () => {
     ['atag:what?'].map(th)
   );
 });
+
+describe('filterQualifiers', () => {
+  it('suggests qualifiers matching the last word', () => {
+    expect(filterQualifiers('cats is:p')).toEqual([
+      'is:pinned',
+      'is:published',
+    ]);
+    expect(filterQualifiers('ha')).toEqual(['has:checklist', 'has:unchecked']);
+    expect(filterQualifiers('cre')).toEqual(['created:']);
+  });
+
+  it('ignores single letters and complete qualifiers', () => {
+    expect(filterQualifiers('i')).toEqual([]);
+    expect(filterQualifiers('is:pinned')).toEqual([]);
+    expect(filterQualifiers('is:pinned ')).toEqual([]);
+  });
+});
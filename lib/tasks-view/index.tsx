@@ -0,0 +1,255 @@
+import React, { Component } from 'react';
+import { connect } from 'react-redux';
+import format from 'date-fns/format';
+
+import CheckboxControl from '../controls/checkbox';
+import actions from '../state/actions';
+import { isEmailTag } from '../utils/is-email-tag';
+import { noteTitleAndPreview } from '../utils/note-utils';
+import { tagHashOf as t } from '../utils/tag-hash';
+import { allTasks, setTaskDone } from '../utils/tasks';
+
+import type * as S from '../state';
+import type * as T from '../types';
+
+type GroupBy = 'note' | 'tag';
+type Show = 'open' | 'done' | 'all';
+
+type NoteTasks = {
+  noteId: T.EntityId;
+  title: string;
+  tasks: T.Task[];
+};
+
+type Group = {
+  key: string;
+  label: string;
+  notes: NoteTasks[];
+};
+
+type StateProps = {
+  notes: Map<T.EntityId, T.Note>;
+};
+
+type DispatchProps = {
+  editNote: (noteId: T.EntityId, changes: Partial<T.Note>) => any;
+  openNote: (noteId: T.EntityId) => any;
+};
+
+type Props = StateProps & DispatchProps;
+
+type OwnState = {
+  groupBy: GroupBy;
+  show: Show;
+};
+
+const groupByOptions: [GroupBy, string][] = [
+  ['note', 'Note'],
+  ['tag', 'Tag'],
+];
+
+const showOptions: [Show, string][] = [
+  ['open', 'Open'],
+  ['done', 'Done'],
+  ['all', 'All'],
+];
+
+const byTitle = (a: { label: string }, b: { label: string }) =>
+  a.label.localeCompare(b.label);
+
+export class TasksView extends Component<Props, OwnState> {
+  static displayName = 'TasksView';
+
+  state: OwnState = {
+    groupBy: 'note',
+    show: 'open',
+  };
+
+  getGroups = (found: Map<T.EntityId, T.Task[]>): Group[] => {
+    const { notes } = this.props;
+    const { groupBy, show } = this.state;
+
+    const noteTasks: NoteTasks[] = [];
+    found.forEach((tasks, noteId) => {
+      const shown = tasks.filter(
+        ({ isDone }) => 'all' === show || isDone === ('done' === show)
+      );
+      if (shown.length > 0) {
+        const { title } = noteTitleAndPreview(notes.get(noteId)!);
+        noteTasks.push({ noteId, title, tasks: shown });
+      }
+    });
+    noteTasks.sort((a, b) => a.title.localeCompare(b.title));
+
+    if ('note' === groupBy) {
+      return noteTasks.map((entry) => ({
+        key: entry.noteId,
+        label: entry.title,
+        notes: [entry],
+      }));
+    }
+
+    const groups = new Map<string, Group>();
+    const untagged: Group = { key: '', label: 'Untagged', notes: [] };
+
+    noteTasks.forEach((entry) => {
+      const tags = notes
+        .get(entry.noteId)!
+        .tags.filter((tagName) => !isEmailTag(tagName));
+
+      if (0 === tags.length) {
+        untagged.notes.push(entry);
+        return;
+      }
+
+      tags.forEach((tagName) => {
+        const tagHash = t(tagName);
+        const group = groups.get(tagHash) ?? {
+          key: tagHash,
+          label: tagName,
+          notes: [],
+        };
+        group.notes.push(entry);
+        groups.set(tagHash, group);
+      });
+    });
+
+    const sorted = Array.from(groups.values()).sort(byTitle);
+    return untagged.notes.length > 0 ? [...sorted, untagged] : sorted;
+  };
+
+  toggleTask = ({ noteId, line, isDone }: T.Task) => {
+    const note = this.props.notes.get(noteId);
+    if (!note) {
+      return;
+    }
+
+    const content = setTaskDone(note.content, line, !isDone);
+    if (content !== note.content) {
+      this.props.editNote(noteId, { content });
+    }
+  };
+
+  renderTasks = (tasks: T.Task[]) => (
+    <ul className="tasks-view__tasks">
+      {tasks.map((task) => (
+        <li key={task.line}>
+          <label className="tasks-view__task">
+            <CheckboxControl
+              checked={task.isDone}
+              onChange={() => this.toggleTask(task)}
+            />
+            <span className={task.isDone ? 'is-done theme-color-fg-dim' : ''}>
+              {task.text}
+            </span>
+            {task.due && (
+              <span className="tasks-view__due theme-color-fg-dim">
+                {format(task.due, 'MMM d, h:mm a')}
+              </span>
+            )}
+          </label>
+        </li>
+      ))}
+    </ul>
+  );
+
+  renderNoteTitle = ({ noteId, title }: NoteTasks) => (
+    <button
+      className="tasks-view__note-title button button-borderless theme-color-fg"
+      onClick={() => this.props.openNote(noteId)}
+      title="Open note"
+      type="button"
+    >
+      {title}
+    </button>
+  );
+
+  render() {
+    const { groupBy, show } = this.state;
+
+    const found = allTasks(this.props.notes);
+    const all = Array.from(found.values()).flat();
+    const doneCount = all.filter(({ isDone }) => isDone).length;
+    const groups = this.getGroups(found);
+
+    return (
+      <div className="tasks-view theme-color-bg theme-color-fg">
+        <header className="tasks-view__header theme-color-border">
+          <h1 className="tasks-view__title">
+            Tasks
+            <span className="tasks-view__count theme-color-fg-dim">
+              {`${all.length - doneCount} open, ${doneCount} done`}
+            </span>
+          </h1>
+          <label className="tasks-view__option">
+            Group by
+            <select
+              className="theme-color-bg theme-color-fg theme-color-border"
+              onChange={({ target: { value } }) =>
+                this.setState({ groupBy: value as GroupBy })
+              }
+              value={groupBy}
+            >
+              {groupByOptions.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="tasks-view__option">
+            Show
+            <select
+              className="theme-color-bg theme-color-fg theme-color-border"
+              onChange={({ target: { value } }) =>
+                this.setState({ show: value as Show })
+              }
+              value={show}
+            >
+              {showOptions.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </header>
+
+        <div className="tasks-view__groups">
+          {groups.length > 0 ? (
+            groups.map(({ key, label, notes }) => (
+              <section key={key} className="tasks-view__group">
+                <h2 className="tasks-view__group-title theme-color-border">
+                  {'note' === groupBy ? this.renderNoteTitle(notes[0]) : label}
+                </h2>
+                {notes.map((entry) => (
+                  <div key={entry.noteId} className="tasks-view__note">
+                    {'tag' === groupBy && this.renderNoteTitle(entry)}
+                    {this.renderTasks(entry.tasks)}
+                  </div>
+                ))}
+              </section>
+            ))
+          ) : (
+            <p className="tasks-view__empty theme-color-fg-dim">
+              {0 === all.length
+                ? 'Checklist items from your notes show up here.'
+                : `No ${show} tasks.`}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+}
+
+const mapStateToProps: S.MapState<StateProps> = (state) => ({
+  notes: state.data.notes,
+});
+
+const mapDispatchToProps: S.MapDispatch<DispatchProps> = {
+  editNote: actions.data.editNote,
+  openNote: actions.ui.openNote,
+};
+
+export default connect(mapStateToProps, mapDispatchToProps)(TasksView);
@@ -35,8 +35,48 @@ export type Tag = {
 
 export type TagEntity = Entity<Tag>;
 
+/**
+ * How a tag looks on this device
+ *
+ * This isn't part of the tag entity so that it
+ * stays out of the tag bucket and other clients.
+ */
+export type TagMetadata = {
+  color?: TagColor;
+  icon?: string;
+};
+
 export type Preferences = {
   analytics_enabled: boolean | null;
+  saved_searches?: SavedSearch[];
+};
+
+export type SavedSearch = {
+  name: string;
+  query: string;
+  sortType: SortType;
+  sortReversed: boolean;
+};
+
+export type NoteReplacement = {
+  noteId: EntityId;
+  before: string;
+  after: string;
+};
+
+export type Task = {
+  noteId: EntityId;
+  line: number;
+  text: string;
+  isDone: boolean;
+  due: Date | null;
+};
+
+export type TagRule = {
+  condition: 'contains' | 'matches';
+  text: string;
+  action: 'add-tag' | 'remove-tag' | 'pin';
+  tagName: TagName;
 };
 
 export type AnalyticsRecord = [string, JSONSerializable | undefined];
@@ -54,14 +94,30 @@ export type ConnectionState = 'green' | 'red' | 'offline';
 export type DialogType =
   | 'ABOUT'
   | 'BETA-WARNING'
+  | 'FIND-REPLACE'
   | 'IMPORT'
   | 'KEYBINDINGS'
   | 'LOGOUT-CONFIRMATION'
+  | 'REMINDERS'
   | 'SETTINGS'
-  | 'SHARE';
+  | 'SHARE'
+  | 'TAGS'
+  | 'TEMPLATES';
 export type LineLength = 'full' | 'narrow';
 export type ListDisplayMode = 'expanded' | 'comfy' | 'condensed';
-export type SortType = 'alphabetical' | 'creationDate' | 'modificationDate';
+export type SortType =
+  | 'alphabetical'
+  | 'creationDate'
+  | 'modificationDate'
+  | 'relevance';
+export type TagColor =
+  | 'blue'
+  | 'green'
+  | 'orange'
+  | 'pink'
+  | 'purple'
+  | 'red'
+  | 'yellow';
 export type Theme = 'system' | 'light' | 'dark';
 export type TranslatableString = Brand<string, 'TranslatableString'>;
 
@@ -0,0 +1,118 @@
+import {
+  adjacentDailyNote,
+  dailyNoteDate,
+  dailyNoteTitle,
+  dailyNotes,
+  findDailyNote,
+} from './daily-notes';
+
+import type * as T from '../types';
+
+const note = (
+  content: string,
+  tags = ['journal'],
+  deleted = false
+): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: tags as T.TagName[],
+});
+
+const id = (name: string) => name as T.EntityId;
+
+const settings = { tagName: 'journal', titleFormat: 'yyyy-MM-dd' };
+
+const notes = new Map([
+  [id('d3'), note('2020-12-03\nThird')],
+  [id('d1'), note('2020-12-01\nFirst')],
+  [id('untagged'), note('2020-12-02\nNot a journal entry', [])],
+  [id('trashed'), note('2020-12-04\nGone', ['journal'], true)],
+  [id('d6'), note('2020-12-06\nSixth')],
+  [id('other'), note('Groceries')],
+]);
+
+describe('dailyNoteTitle', () => {
+  it('falls back to the default format for invalid formats', () => {
+    const date = new Date(2020, 11, 24);
+
+    expect(dailyNoteTitle(date, 'EEEE, MMMM d')).toBe('Thursday, December 24');
+    expect(dailyNoteTitle(date, 'yyyy-MM-dd j')).toBe('2020-12-24');
+  });
+});
+
+describe('dailyNoteDate', () => {
+  it('reads the day from titles written in the format', () => {
+    expect(
+      dailyNoteDate(note('Dec 24, 2020'), {
+        ...settings,
+        titleFormat: 'MMM d, yyyy',
+      })
+    ).toEqual(new Date(2020, 11, 24));
+    expect(dailyNoteDate(note('2020-12-24 plans'), settings)).toBe(null);
+  });
+
+  it('needs the tag only when there is one', () => {
+    expect(dailyNoteDate(note('2020-12-24', []), settings)).toBe(null);
+    expect(
+      dailyNoteDate(note('2020-12-24', []), { ...settings, tagName: '' })
+    ).toEqual(new Date(2020, 11, 24));
+  });
+
+  it('reads titles written in the fallback format', () => {
+    expect(
+      dailyNoteDate(note('2020-12-24'), {
+        ...settings,
+        titleFormat: 'Journal yyyy-MM-dd',
+      })
+    ).toEqual(new Date(2020, 11, 24));
+  });
+});
+
+describe('findDailyNote', () => {
+  const day = new Date(2020, 11, 3, 15, 30);
+
+  it('finds notes titled in the fallback format', () => {
+    expect(
+      findDailyNote(
+        notes,
+        { ...settings, titleFormat: 'Journal yyyy-MM-dd' },
+        day
+      )
+    ).toBe('d3');
+  });
+
+  it('finds the note covering the day when the format has no day', () => {
+    const monthly = new Map([[id('december'), note('2020-12\nPlans')]]);
+
+    expect(
+      findDailyNote(monthly, { ...settings, titleFormat: 'yyyy-MM' }, day)
+    ).toBe('december');
+  });
+});
+
+describe('dailyNotes', () => {
+  it('orders daily notes by day', () => {
+    expect(dailyNotes(notes, settings).map(([noteId]) => noteId)).toEqual([
+      'd1',
+      'd3',
+      'd6',
+    ]);
+  });
+});
+
+describe('adjacentDailyNote', () => {
+  it('skips days without notes', () => {
+    const from = new Date(2020, 11, 3, 15, 30);
+
+    expect(adjacentDailyNote(notes, settings, from, 'previous')).toBe('d1');
+    expect(adjacentDailyNote(notes, settings, from, 'next')).toBe('d6');
+    expect(
+      adjacentDailyNote(notes, settings, new Date(2020, 11, 6), 'next')
+    ).toBe(null);
+  });
+});
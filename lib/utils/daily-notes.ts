@@ -0,0 +1,157 @@
+import format from 'date-fns/format';
+import isValid from 'date-fns/isValid';
+import parse from 'date-fns/parse';
+import startOfDay from 'date-fns/startOfDay';
+
+import { noteTitleAndPreview } from './note-utils';
+import { tagHashOf as t } from './tag-hash';
+
+import type * as T from '../types';
+
+export type DailyNoteSettings = {
+  tagName: string;
+  titleFormat: string;
+};
+
+export const defaultTitleFormat = 'yyyy-MM-dd';
+
+/**
+ * Picks the format daily note titles are actually written in
+ *
+ * @param titleFormat date-fns format from the settings
+ * @returns the format, or the default one if date-fns can't use it
+ */
+const usableTitleFormat = (titleFormat: string): string => {
+  try {
+    format(new Date(), titleFormat);
+    return titleFormat;
+  } catch (e) {
+    return defaultTitleFormat;
+  }
+};
+
+const hasDailyNoteTag = (note: T.Note, tagName: string) =>
+  !tagName || note.tags.some((tag) => t(tag) === t(tagName as T.TagName));
+
+/**
+ * Writes the title of the daily note for a given day
+ *
+ * Formats date-fns can't use fall back to the default one.
+ *
+ * @param date day of the note
+ * @param titleFormat date-fns format for the title
+ * @returns title of the note
+ */
+export const dailyNoteTitle = (date: Date, titleFormat: string): string =>
+  format(date, usableTitleFormat(titleFormat));
+
+/**
+ * Finds the day a daily note is for
+ *
+ * Daily notes have a title written in the title format and, if
+ * there's a daily note tag, the tag. Titles only count if they
+ * read exactly as the format would write them.
+ *
+ * @param note note to check
+ * @param settings how daily notes are recognized
+ * @returns start of the day or null if this isn't a daily note
+ */
+export const dailyNoteDate = (
+  note: T.Note,
+  { tagName, titleFormat }: DailyNoteSettings
+): Date | null => {
+  if (note.deleted || !hasDailyNoteTag(note, tagName)) {
+    return null;
+  }
+
+  const { title } = noteTitleAndPreview(note);
+  let date: Date;
+  try {
+    date = parse(title, usableTitleFormat(titleFormat), startOfDay(new Date()));
+  } catch (e) {
+    return null;
+  }
+
+  return isValid(date) && dailyNoteTitle(date, titleFormat) === title
+    ? startOfDay(date)
+    : null;
+};
+
+/**
+ * Finds the daily note for a given day
+ *
+ * This compares titles rather than days so that formats
+ * without a day in them, such as `yyyy-MM`, still find
+ * the note which covers the day.
+ *
+ * @param notes notes to look through
+ * @param settings how daily notes are recognized
+ * @param date day to look for
+ * @returns daily note for that day, if there is one
+ */
+export const findDailyNote = (
+  notes: Map<T.EntityId, T.Note>,
+  { tagName, titleFormat }: DailyNoteSettings,
+  date: Date
+): T.EntityId | null => {
+  const title = dailyNoteTitle(date, titleFormat);
+  const found = Array.from(notes).find(
+    ([, note]) =>
+      !note.deleted &&
+      hasDailyNoteTag(note, tagName) &&
+      noteTitleAndPreview(note).title === title
+  );
+
+  return found?.[0] ?? null;
+};
+
+/**
+ * Lists the daily notes in order of their days
+ *
+ * @param notes notes to look through
+ * @param settings how daily notes are recognized
+ * @returns daily notes and their days, earliest first
+ */
+export const dailyNotes = (
+  notes: Map<T.EntityId, T.Note>,
+  settings: DailyNoteSettings
+): [T.EntityId, Date][] => {
+  const found: [T.EntityId, Date][] = [];
+
+  notes.forEach((note, noteId) => {
+    const date = dailyNoteDate(note, settings);
+    if (date) {
+      found.push([noteId, date]);
+    }
+  });
+
+  return found.sort(([, a], [, b]) => a.getTime() - b.getTime());
+};
+
+/**
+ * Finds the closest daily note before or after a day
+ *
+ * Days without a note are skipped over.
+ *
+ * @param notes notes to look through
+ * @param settings how daily notes are recognized
+ * @param from day to start from
+ * @param direction which way to look
+ * @returns closest daily note, if there is one
+ */
+export const adjacentDailyNote = (
+  notes: Map<T.EntityId, T.Note>,
+  settings: DailyNoteSettings,
+  from: Date,
+  direction: 'previous' | 'next'
+): T.EntityId | null => {
+  const day = startOfDay(from).getTime();
+  const found = dailyNotes(notes, settings);
+
+  const adjacent =
+    'previous' === direction
+      ? found.filter(([, date]) => date.getTime() < day).pop()
+      : found.find(([, date]) => date.getTime() > day);
+
+  return adjacent?.[0] ?? null;
+};
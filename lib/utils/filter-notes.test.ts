@@ -0,0 +1,180 @@
+import { getTerms, parseQuery } from './filter-notes';
+
+const term = (value: string) => ({ type: 'term', value });
+const tag = (tagName: string) => ({ type: 'tag', tagName });
+const and = (...children: object[]) => ({ type: 'and', children });
+const or = (...children: object[]) => ({ type: 'or', children });
+const not = (child: object) => ({ type: 'not', child });
+
+describe('parseQuery', () => {
+  it('returns an empty match-all query for empty input', () => {
+    expect(parseQuery('')).toEqual(and());
+    expect(parseQuery('   ')).toEqual(and());
+  });
+
+  it('implicitly joins words with AND', () => {
+    expect(parseQuery('cat')).toEqual(term('cat'));
+    expect(parseQuery('cat dog')).toEqual(and(term('cat'), term('dog')));
+    expect(parseQuery('cat AND dog')).toEqual(and(term('cat'), term('dog')));
+  });
+
+  it('keeps quoted literals together', () => {
+    expect(parseQuery('"big cat" dog')).toEqual(
+      and(term('big cat'), term('dog'))
+    );
+    expect(parseQuery('"a" "b"')).toEqual(and(term('a'), term('b')));
+    expect(parseQuery('"unfinished lit')).toEqual(term('unfinished lit'));
+  });
+
+  it('parses tags', () => {
+    expect(parseQuery('tag:work notes')).toEqual(
+      and(tag('work'), term('notes'))
+    );
+  });
+
+  it('binds OR more tightly than AND', () => {
+    expect(parseQuery('a b OR c')).toEqual(
+      and(term('a'), or(term('b'), term('c')))
+    );
+    expect(parseQuery('a OR b OR c')).toEqual(
+      or(term('a'), term('b'), term('c'))
+    );
+  });
+
+  it('only treats uppercase operators as operators', () => {
+    expect(parseQuery('this or that')).toEqual(
+      and(term('this'), term('or'), term('that'))
+    );
+    expect(parseQuery('not now')).toEqual(and(term('not'), term('now')));
+  });
+
+  it('negates terms, tags, and groups', () => {
+    expect(parseQuery('-draft')).toEqual(not(term('draft')));
+    expect(parseQuery('NOT draft')).toEqual(not(term('draft')));
+    expect(parseQuery('-tag:done')).toEqual(not(tag('done')));
+    expect(parseQuery('-"old news"')).toEqual(not(term('old news')));
+    expect(parseQuery('-(a OR b)')).toEqual(not(or(term('a'), term('b'))));
+  });
+
+  it('does not treat inner or lone dashes as negation', () => {
+    expect(parseQuery('well-known')).toEqual(term('well-known'));
+    expect(parseQuery('a - b')).toEqual(and(term('a'), term('-'), term('b')));
+  });
+
+  it('groups with parentheses', () => {
+    expect(parseQuery('(invoice OR receipt) -draft tag:finance')).toEqual(
+      and(
+        or(term('invoice'), term('receipt')),
+        not(term('draft')),
+        tag('finance')
+      )
+    );
+    expect(parseQuery('(a b) OR c')).toEqual(
+      or(and(term('a'), term('b')), term('c'))
+    );
+  });
+
+  it('recovers from incomplete queries', () => {
+    expect(parseQuery('(a OR b')).toEqual(or(term('a'), term('b')));
+    expect(parseQuery('a) b')).toEqual(and(term('a'), term('b')));
+    expect(parseQuery('a OR')).toEqual(term('a'));
+    expect(parseQuery('OR a')).toEqual(term('a'));
+    expect(parseQuery('a NOT')).toEqual(term('a'));
+    expect(parseQuery('()')).toEqual(and());
+  });
+});
+
+describe('parseQuery qualifiers', () => {
+  const day = 24 * 60 * 60;
+  const localDay = (y: number, m: number, d: number) =>
+    new Date(y, m - 1, d).getTime() / 1000;
+
+  it('parses flags and features', () => {
+    expect(parseQuery('is:pinned')).toEqual({ type: 'is', flag: 'pinned' });
+    expect(parseQuery('-is:markdown')).toEqual(
+      not({ type: 'is', flag: 'markdown' })
+    );
+    expect(parseQuery('has:unchecked')).toEqual({
+      type: 'has',
+      feature: 'unchecked',
+    });
+    expect(parseQuery('in:history')).toEqual({ type: 'in', scope: 'history' });
+  });
+
+  it('skips unknown or unfinished qualifiers', () => {
+    expect(parseQuery('is:')).toEqual(and());
+    expect(parseQuery('is:pin dog')).toEqual(term('dog'));
+    expect(parseQuery('has:cats')).toEqual(and());
+    expect(parseQuery('in:trash')).toEqual(and());
+    expect(parseQuery('created:>20')).toEqual(and());
+  });
+
+  it('parses absolute dates as whole local days', () => {
+    const start = localDay(2025, 1, 1);
+    const end = localDay(2025, 1, 2);
+
+    expect(parseQuery('created:2025-01-01')).toEqual({
+      type: 'date',
+      field: 'creationDate',
+      after: start,
+      before: end,
+    });
+    expect(parseQuery('created:>2025-01-01')).toMatchObject({
+      after: end,
+      before: Infinity,
+    });
+    expect(parseQuery('created:>=2025-01-01')).toMatchObject({
+      after: start,
+      before: Infinity,
+    });
+    expect(parseQuery('modified:<2025-01-01')).toMatchObject({
+      field: 'modificationDate',
+      after: -Infinity,
+      before: start,
+    });
+    expect(parseQuery('modified:<=2025-01-01')).toMatchObject({
+      after: -Infinity,
+      before: end,
+    });
+  });
+
+  it('parses relative dates as ages', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(100 * day * 1000);
+
+    expect(parseQuery('modified:<7d')).toMatchObject({
+      after: 93 * day,
+      before: Infinity,
+    });
+    expect(parseQuery('modified:7d')).toMatchObject({
+      after: 93 * day,
+      before: Infinity,
+    });
+    expect(parseQuery('created:>2w')).toMatchObject({
+      after: -Infinity,
+      before: 86 * day,
+    });
+
+    jest.restoreAllMocks();
+  });
+});
+
+describe('getTerms', () => {
+  it('returns nothing for an empty query', () => {
+    expect(getTerms('')).toEqual([]);
+  });
+
+  it('returns words and literals without tags', () => {
+    expect(getTerms('tag:work "big cat" dog')).toEqual(['big cat', 'dog']);
+  });
+
+  it('leaves out qualifiers', () => {
+    expect(getTerms('is:pinned created:>2025-01-01 dog')).toEqual(['dog']);
+  });
+
+  it('leaves out negated terms and operators', () => {
+    expect(getTerms('(invoice OR receipt) -draft NOT old')).toEqual([
+      'invoice',
+      'receipt',
+    ]);
+  });
+});
@@ -1,38 +1,386 @@
+import type * as T from '../types';
+
 const tagPattern = () => /(?:\btag:)([^\s,]+)/g;
 
 export const withoutTags = (s: string) => s.replace(tagPattern(), '').trim();
 
-export const getTerms = (filterText: string): string[] => {
-  if (!filterText) {
-    return [];
+/**
+ * Parsed form of a search query
+ *
+ * Terms written next to each other are implicitly joined with `and`,
+ * `OR` binds more tightly than that, and `-term` or `NOT term` negate
+ * whatever comes right after them, e.g.
+ *
+ *   (invoice OR receipt) -draft tag:finance
+ *
+ * becomes
+ *
+ *   and(or(invoice, receipt), not(draft), tag(finance))
+ */
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'tag'; tagName: T.TagName }
+  | { type: 'term'; value: string }
+  | {
+      type: 'date';
+      field: 'creationDate' | 'modificationDate';
+      after: T.SecondsEpoch;
+      before: T.SecondsEpoch;
+    }
+  | { type: 'is'; flag: 'markdown' | 'pinned' | 'published' | 'shared' }
+  | { type: 'has'; feature: 'checklist' | 'unchecked' }
+  | { type: 'in'; scope: 'history' };
+
+/**
+ * Qualifiers which can narrow a search beyond the note text
+ *
+ * Dates can be absolute (`created:>2025-01-01`) or relative
+ * to now, in which case they describe the age of the note:
+ * `modified:<7d` means "modified less than seven days ago"
+ *
+ * `in:history` searches the text of a note's earlier revisions
+ * instead of its current content. Revisions are only fetched when
+ * a note is opened, so it only covers the notes whose revisions
+ * were loaded on this device.
+ */
+export const searchQualifiers = [
+  'is:pinned',
+  'is:markdown',
+  'is:published',
+  'is:shared',
+  'has:checklist',
+  'has:unchecked',
+  'in:history',
+  'created:',
+  'modified:',
+];
+
+type Token =
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'or' }
+  | { type: 'not' }
+  | { type: 'literal'; value: string }
+  | { type: 'word'; value: string };
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let at = 0;
+
+  while (at < query.length) {
+    const c = query[at];
+
+    if (/\s/.test(c)) {
+      at++;
+      continue;
+    }
+
+    if ('(' === c || ')' === c) {
+      tokens.push({ type: '(' === c ? 'open' : 'close' });
+      at++;
+      continue;
+    }
+
+    // a leading dash negates the next term or group, but only when
+    // something follows it; otherwise it's just a dash
+    if (
+      '-' === c &&
+      at + 1 < query.length &&
+      !/[\s)]/.test(query[at + 1]) &&
+      (0 === at || /[\s(]/.test(query[at - 1]))
+    ) {
+      tokens.push({ type: 'not' });
+      at++;
+      continue;
+    }
+
+    // quoted literals run until the closing quote
+    // or the end of the query if it's still being typed
+    if ('"' === c) {
+      const end = query.indexOf('"', at + 1);
+      const value = query.slice(at + 1, end === -1 ? undefined : end);
+      if (value.length) {
+        tokens.push({ type: 'literal', value });
+      }
+      at = end === -1 ? query.length : end + 1;
+      continue;
+    }
+
+    const match = /^[^\s()"]+/.exec(query.slice(at))!;
+    const word = match[0];
+    at += word.length;
+
+    if ('OR' === word) {
+      tokens.push({ type: 'or' });
+    } else if ('NOT' === word) {
+      tokens.push({ type: 'not' });
+    } else if ('AND' !== word) {
+      tokens.push({ type: 'word', value: word });
+    }
+  }
+
+  return tokens;
+};
+
+const ageUnits: { [unit: string]: number } = {
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+  m: 30 * 24 * 60 * 60,
+  y: 365 * 24 * 60 * 60,
+};
+
+/**
+ * Turns a date comparison into the range of times it allows
+ *
+ * @param comparison e.g. `>2025-01-01`, `<=2025-01-01`, `2025-01-01`, `<7d`
+ * @returns [after, before) in seconds or null if the comparison is invalid
+ */
+const dateRange = (
+  comparison: string
+): [T.SecondsEpoch, T.SecondsEpoch] | null => {
+  const match = /^(<=|>=|<|>|=)?(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d+)([hdwmy]))$/.exec(
+    comparison
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, op = '=', year, month, day, amount, unit] = match;
+
+  if (amount) {
+    // relative dates compare ages, so `<7d` is "newer than seven days"
+    const threshold = Date.now() / 1000 - parseInt(amount, 10) * ageUnits[unit];
+    return op.startsWith('>') ? [-Infinity, threshold] : [threshold, Infinity];
+  }
+
+  const start = new Date(+year, +month - 1, +day);
+  if (isNaN(start.getTime())) {
+    return null;
+  }
+  const startOfDay = start.getTime() / 1000;
+  const endOfDay =
+    new Date(
+      start.getFullYear(),
+      start.getMonth(),
+      start.getDate() + 1
+    ).getTime() / 1000;
+
+  switch (op) {
+    case '<':
+      return [-Infinity, startOfDay];
+    case '<=':
+      return [-Infinity, endOfDay];
+    case '>':
+      return [endOfDay, Infinity];
+    case '>=':
+      return [startOfDay, Infinity];
+    default:
+      return [startOfDay, endOfDay];
+  }
+};
+
+const termNode = (word: string): QueryNode | null => {
+  const tagMatch = /^tag:([^\s,]+)/.exec(word);
+  if (tagMatch) {
+    return { type: 'tag', tagName: tagMatch[1] as T.TagName };
+  }
+
+  // unfinished or unknown qualifiers are skipped instead of
+  // searched for as text so the results don't disappear
+  // while someone is still typing them out
+  const qualifierMatch = /^(created|modified|is|has|in):(.*)$/.exec(word);
+  if (!qualifierMatch) {
+    return { type: 'term', value: word };
   }
 
-  const literalsPattern = /(?:")((?:"|[^"])+)(?:")/g;
-  const boundaryPattern = /[\b\s]/g;
+  const [, qualifier, value] = qualifierMatch;
+  switch (qualifier) {
+    case 'created':
+    case 'modified': {
+      const range = dateRange(value);
+      return range
+        ? {
+            type: 'date',
+            field:
+              'created' === qualifier ? 'creationDate' : 'modificationDate',
+            after: range[0],
+            before: range[1],
+          }
+        : null;
+    }
 
-  let match;
-  let withoutLiterals = '';
+    case 'is':
+      return 'markdown' === value ||
+        'pinned' === value ||
+        'published' === value ||
+        'shared' === value
+        ? { type: 'is', flag: value }
+        : null;
 
-  const filter = withoutTags(filterText);
+    case 'has':
+      return 'checklist' === value || 'unchecked' === value
+        ? { type: 'has', feature: value }
+        : null;
 
-  const literals = [];
-  while ((match = literalsPattern.exec(filter)) !== null) {
-    literals.push(match[0].slice(1, -1));
+    case 'in':
+      return 'history' === value ? { type: 'in', scope: value } : null;
 
-    withoutLiterals += filter.slice(literalsPattern.lastIndex, match.index);
+    default:
+      return null;
   }
+};
+
+/**
+ * Parses a search query into a tree of conditions
+ *
+ * Because this runs on every keystroke in the search field it never
+ * fails: unbalanced parentheses are closed at the end of the query,
+ * stray closing parentheses are skipped, and dangling operators are
+ * ignored.
+ *
+ * @param query raw text from the search field
+ * @returns root node of the parsed query, an empty `and` for no query
+ */
+export const parseQuery = (query: string): QueryNode => {
+  const tokens = tokenize(query ?? '');
+  let at = 0;
+
+  const parseSequence = (inGroup: boolean): QueryNode => {
+    const children: QueryNode[] = [];
+
+    while (at < tokens.length) {
+      const token = tokens[at];
+
+      if ('close' === token.type) {
+        at++;
+        if (inGroup) {
+          break;
+        }
+        continue;
+      }
+
+      if ('or' === token.type) {
+        at++;
+        continue;
+      }
+
+      const node = parseOr();
+      if (node) {
+        children.push(node);
+      }
+    }
+
+    return 1 === children.length ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): QueryNode | null => {
+    const first = parseUnary();
+    const children = first ? [first] : [];
+
+    while (at < tokens.length && 'or' === tokens[at].type) {
+      at++;
+      const next = parseUnary();
+      if (next) {
+        children.push(next);
+      }
+    }
+
+    if (children.length < 2) {
+      return children[0] ?? null;
+    }
+
+    return { type: 'or', children };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[at];
+    if (!token) {
+      return null;
+    }
+
+    switch (token.type) {
+      case 'not': {
+        at++;
+        const child = parseUnary();
+        return child ? { type: 'not', child } : null;
+      }
+
+      case 'open': {
+        at++;
+        const group = parseSequence(true);
+        return 'and' === group.type && 0 === group.children.length
+          ? null
+          : group;
+      }
 
-  if (
-    (literalsPattern.lastIndex > 0 || literals.length === 0) &&
-    literalsPattern.lastIndex < filter.length
-  ) {
-    withoutLiterals += filter.slice(literalsPattern.lastIndex);
+      case 'literal':
+        at++;
+        return { type: 'term', value: token.value };
+
+      case 'word':
+        at++;
+        return termNode(token.value);
+
+      default:
+        return null;
+    }
+  };
+
+  return parseSequence(false);
+};
+
+/**
+ * Whether a parsed query searches the history of notes
+ *
+ * @param node parsed query
+ * @returns whether `in:history` appears anywhere in the query
+ */
+export const searchesHistory = (node: QueryNode): boolean => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(searchesHistory);
+
+    case 'in':
+      return true;
+
+    default:
+      return false;
   }
+};
+
+/**
+ * Returns the text terms a note must contain to match the query
+ *
+ * Negated terms are left out since they never appear in matching notes.
+ * This is what we highlight in the note list, preview, and editor.
+ *
+ * @param filterText raw text from the search field
+ * @returns list of terms in the order they appear in the query
+ */
+export const getTerms = (filterText: string): string[] => {
+  if (!filterText) {
+    return [];
+  }
+
+  const terms: string[] = [];
+  const collect = (node: QueryNode) => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        node.children.forEach(collect);
+        return;
+
+      case 'term':
+        terms.push(node.value);
+        return;
+    }
+  };
 
-  const terms = withoutLiterals
-    .split(boundaryPattern)
-    .map((a) => a.trim())
-    .filter((a) => a);
+  collect(parseQuery(filterText));
 
-  return [...literals, ...terms];
+  return terms;
 };
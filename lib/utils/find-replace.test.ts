@@ -0,0 +1,69 @@
+import {
+  applyLineChanges,
+  candidateQuery,
+  findPattern,
+  replaceLines,
+  replacementFor,
+} from './find-replace';
+
+const plain = { isCaseSensitive: false, isRegExp: false };
+const regex = { isCaseSensitive: true, isRegExp: true };
+
+describe('findPattern', () => {
+  it('escapes plain text', () => {
+    expect(findPattern('a.b', plain)?.test('A.B')).toBe(true);
+    expect(findPattern('a.b', plain)?.test('axb')).toBe(false);
+  });
+
+  it('respects case sensitivity', () => {
+    expect(findPattern('Apollo', regex)?.test('apollo')).toBe(false);
+  });
+
+  it('rejects invalid or empty patterns', () => {
+    expect(findPattern('', plain)).toBeNull();
+    expect(findPattern('(', regex)).toBeNull();
+    expect(findPattern('x*', regex)).toBeNull();
+  });
+});
+
+describe('replaceLines', () => {
+  it('lists the lines which change', () => {
+    const content = 'Apollo launch\nnothing here\nAPOLLO notes';
+    const pattern = findPattern('apollo', plain)!;
+
+    expect(replaceLines(content, pattern, 'Artemis')).toEqual([
+      { line: 0, before: 'Apollo launch', after: 'Artemis launch' },
+      { line: 2, before: 'APOLLO notes', after: 'Artemis notes' },
+    ]);
+  });
+
+  it('fills in groups only for regexes', () => {
+    const pattern = findPattern('(\\d+) items', regex)!;
+
+    expect(
+      replaceLines('3 items', pattern, replacementFor('$1 things', regex))
+    ).toEqual([{ line: 0, before: '3 items', after: '3 things' }]);
+    expect(
+      replaceLines(
+        'cost',
+        findPattern('cost', plain)!,
+        replacementFor('$1', plain)
+      )
+    ).toEqual([{ line: 0, before: 'cost', after: '$1' }]);
+  });
+});
+
+describe('applyLineChanges', () => {
+  it('replaces only the changed lines', () => {
+    expect(
+      applyLineChanges('a\nb\nc', [{ line: 1, before: 'b', after: 'B' }])
+    ).toBe('a\nB\nc');
+  });
+});
+
+describe('candidateQuery', () => {
+  it('searches for plain text as a phrase', () => {
+    expect(candidateQuery('big cat', plain)).toBe('"big cat"');
+    expect(candidateQuery('big.*cat', regex)).toBe('');
+  });
+});
@@ -0,0 +1,117 @@
+import { escapeRegExp } from 'lodash';
+
+export type FindOptions = {
+  isCaseSensitive: boolean;
+  isRegExp: boolean;
+};
+
+export type LineChange = {
+  line: number;
+  before: string;
+  after: string;
+};
+
+/**
+ * Builds the pattern which finds text to replace
+ *
+ * @param find text or regular expression to find
+ * @param options how to interpret the text
+ * @returns pattern or null if there's nothing to find or the regex is invalid
+ */
+export const findPattern = (
+  find: string,
+  { isCaseSensitive, isRegExp }: FindOptions
+): RegExp | null => {
+  if (find.length === 0) {
+    return null;
+  }
+
+  try {
+    const pattern = new RegExp(
+      isRegExp ? find : escapeRegExp(find),
+      isCaseSensitive ? 'g' : 'gi'
+    );
+
+    // patterns which match empty text would insert the replacement everywhere
+    return pattern.test('') ? null : pattern;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Prepares the text which replaces each match
+ *
+ * @param replace replacement as typed
+ * @param options how to interpret the text to find
+ * @returns replacement for String.replace; only regexes can refer to groups
+ */
+export const replacementFor = (
+  replace: string,
+  { isRegExp }: FindOptions
+): string => (isRegExp ? replace : replace.replace(/\$/g, '$$$$'));
+
+/**
+ * Replaces matches of a pattern in each line of a note
+ *
+ * Lines are replaced one at a time so that what changes always
+ * matches what the preview shows, line for line.
+ *
+ * @param content note content
+ * @param pattern pattern from findPattern
+ * @param replace replacement from replacementFor
+ * @returns lines which change; empty when nothing matches
+ */
+export const replaceLines = (
+  content: string,
+  pattern: RegExp,
+  replace: string
+): LineChange[] => {
+  const changes: LineChange[] = [];
+
+  content.split('\n').forEach((before, line) => {
+    pattern.lastIndex = 0;
+    if (!pattern.test(before)) {
+      return;
+    }
+
+    pattern.lastIndex = 0;
+    const after = before.replace(pattern, replace);
+    if (after !== before) {
+      changes.push({ line, before, after });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Applies line changes to the content they came from
+ *
+ * @param content note content
+ * @param changes changes from replaceLines
+ * @returns updated content
+ */
+export const applyLineChanges = (
+  content: string,
+  changes: LineChange[]
+): string => {
+  const lines = content.split('\n');
+  changes.forEach(({ line, after }) => {
+    lines[line] = after;
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Builds a search query for notes which could contain the text to find
+ *
+ * @param find text or regular expression to find
+ * @param options how to interpret the text
+ * @returns query for the search, which matches every note for regexes
+ */
+export const candidateQuery = (
+  find: string,
+  { isRegExp }: FindOptions
+): string => (isRegExp || find.includes('"') ? '' : `"${find}"`);
@@ -0,0 +1,110 @@
+import {
+  headingAtLine,
+  headingSections,
+  headingTree,
+  markdownHeadings,
+  renderedHeadingLines,
+} from './markdown-headings';
+
+const content = [
+  '# Trip',
+  'Plans for the week',
+  '',
+  '## Day one ##',
+  '```sh',
+  '# not a heading',
+  '```',
+  '',
+  '## Day two',
+  '#hashtag',
+  '',
+  '# Packing',
+  '',
+].join('\n');
+
+describe('markdownHeadings', () => {
+  it('skips code blocks and hashtags', () => {
+    expect(markdownHeadings(content)).toEqual([
+      { level: 1, text: 'Trip', line: 0 },
+      { level: 2, text: 'Day one', line: 3 },
+      { level: 2, text: 'Day two', line: 8 },
+      { level: 1, text: 'Packing', line: 11 },
+    ]);
+  });
+});
+
+describe('headingSections', () => {
+  it('ends sections at the next heading of the same level or higher', () => {
+    expect(headingSections(content)).toEqual([
+      { start: 0, end: 9 },
+      { start: 3, end: 6 },
+      { start: 8, end: 9 },
+    ]);
+  });
+});
+
+describe('headingTree', () => {
+  it('nests headings under the closest higher-level heading', () => {
+    expect(headingTree(markdownHeadings(content))).toEqual([
+      {
+        level: 1,
+        text: 'Trip',
+        line: 0,
+        children: [
+          { level: 2, text: 'Day one', line: 3, children: [] },
+          { level: 2, text: 'Day two', line: 8, children: [] },
+        ],
+      },
+      { level: 1, text: 'Packing', line: 11, children: [] },
+    ]);
+  });
+
+  it('keeps skipped levels under their parent', () => {
+    const tree = headingTree(markdownHeadings('### Deep\n# Top\n### Under'));
+
+    expect(tree.map(({ text }) => text)).toEqual(['Deep', 'Top']);
+    expect(tree[1].children.map(({ text }) => text)).toEqual(['Under']);
+  });
+});
+
+describe('headingAtLine', () => {
+  const headings = markdownHeadings(content);
+
+  it('finds the heading of the section containing a line', () => {
+    expect(headingAtLine(headings, 0)).toBe(0);
+    expect(headingAtLine(headings, 6)).toBe(3);
+    expect(headingAtLine(headings, 12)).toBe(11);
+  });
+
+  it('has no heading before the first one', () => {
+    expect(headingAtLine(markdownHeadings('intro\n# Later'), 0)).toBeNull();
+  });
+});
+
+describe('renderedHeadingLines', () => {
+  it('pairs rendered headings with their source lines', () => {
+    const headings = markdownHeadings(
+      '# **Bold** [link](https://example.com)\n## Same\n## Same'
+    );
+
+    expect(
+      renderedHeadingLines(headings, [
+        { level: 1, text: 'Bold link' },
+        { level: 2, text: 'Same' },
+        { level: 2, text: 'Same' },
+      ])
+    ).toEqual([0, 1, 2]);
+  });
+
+  it('skips rendered headings missing from the source', () => {
+    const headings = markdownHeadings('# One\n# Two');
+
+    expect(
+      renderedHeadingLines(headings, [
+        { level: 1, text: 'One' },
+        { level: 3, text: 'Embedded' },
+        { level: 1, text: 'Two' },
+      ])
+    ).toEqual([0, null, 1]);
+  });
+});
@@ -0,0 +1,162 @@
+export type MarkdownHeading = {
+  level: number;
+  text: string;
+  line: number;
+};
+
+export type HeadingSection = {
+  start: number;
+  end: number;
+};
+
+const headingPattern = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const fencePattern = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Finds the ATX headings (`# Heading`) in markdown content
+ *
+ * Lines inside fenced code blocks aren't headings.
+ *
+ * @param content markdown content
+ * @returns headings in the order they appear, with zero-based line numbers
+ */
+export const markdownHeadings = (content: string): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+
+  content.split('\n').forEach((lineText, line) => {
+    const fenceMatch = fencePattern.exec(lineText);
+    if (fenceMatch) {
+      if (null === fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      }
+      return;
+    }
+
+    const match = null === fence && headingPattern.exec(lineText);
+    if (match) {
+      headings.push({
+        level: match[1].length,
+        text: (match[2] ?? '').trim(),
+        line,
+      });
+    }
+  });
+
+  return headings;
+};
+
+/**
+ * Finds the lines covered by each heading's section
+ *
+ * Sections run until the next heading of the same or a higher
+ * level, leaving off any blank lines at their end.
+ *
+ * @param content markdown content
+ * @returns zero-based first and last line of each section longer than its heading
+ */
+export const headingSections = (content: string): HeadingSection[] => {
+  const lines = content.split('\n');
+  const headings = markdownHeadings(content);
+
+  return headings
+    .map(({ level, line }, index) => {
+      const next = headings
+        .slice(index + 1)
+        .find((heading) => heading.level <= level);
+
+      let end = next ? next.line - 1 : lines.length - 1;
+      while (end > line && lines[end].trim() === '') {
+        end--;
+      }
+
+      return { start: line, end };
+    })
+    .filter(({ start, end }) => end > start);
+};
+
+export type HeadingNode = MarkdownHeading & {
+  children: HeadingNode[];
+};
+
+/**
+ * Nests headings under the closest heading of a higher level before them
+ *
+ * @param headings headings in the order they appear
+ * @returns top-level headings, each holding their subheadings
+ */
+export const headingTree = (headings: MarkdownHeading[]): HeadingNode[] => {
+  const roots: HeadingNode[] = [];
+  const parents: HeadingNode[] = [];
+
+  headings.forEach((heading) => {
+    const node = { ...heading, children: [] };
+
+    while (parents.length && parents[parents.length - 1].level >= node.level) {
+      parents.pop();
+    }
+
+    (parents.length ? parents[parents.length - 1].children : roots).push(node);
+    parents.push(node);
+  });
+
+  return roots;
+};
+
+/**
+ * Finds the heading whose section contains the given line
+ *
+ * @param headings headings in the order they appear
+ * @param line zero-based line number
+ * @returns line of the last heading at or above the given line, if any
+ */
+export const headingAtLine = (
+  headings: MarkdownHeading[],
+  line: number
+): number | null =>
+  headings.reduce<number | null>(
+    (current, heading) => (heading.line <= line ? heading.line : current),
+    null
+  );
+
+// rendered headings lose their inline markup and link targets
+const comparableText = (text: string) =>
+  text
+    .replace(/\]\([^)]*\)/g, '')
+    .replace(/[\s*_`~#[\]\\]+/g, '')
+    .toLowerCase();
+
+/**
+ * Pairs headings rendered from markdown with the source lines they came from
+ *
+ * Rendered headings without a source line, e.g. from embedded
+ * notes or underlined headings, are skipped over.
+ *
+ * @param headings headings found in the markdown source
+ * @param rendered level and text of each rendered heading element
+ * @returns source line of each rendered heading, or null
+ */
+export const renderedHeadingLines = (
+  headings: MarkdownHeading[],
+  rendered: Pick<MarkdownHeading, 'level' | 'text'>[]
+): (number | null)[] => {
+  let next = 0;
+
+  return rendered.map(({ level, text }) => {
+    const offset = headings
+      .slice(next)
+      .findIndex(
+        (heading) =>
+          heading.level === level &&
+          comparableText(heading.text) === comparableText(text)
+      );
+    if (offset === -1) {
+      return null;
+    }
+
+    next += offset + 1;
+    return headings[next - 1].line;
+  });
+};
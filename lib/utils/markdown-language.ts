@@ -0,0 +1,139 @@
+import { editor as Editor, languages } from 'monaco-editor';
+
+import { headingSections } from './markdown-headings';
+
+export const markdownLanguageId = 'simplenote-markdown';
+
+// short names people write after fences, for the languages the editor
+// bundles (see webpack.config.js); TypeScript and JSON borrow JavaScript's
+// highlighting because their own languages come with heavy workers
+const fenceAliases: { [alias: string]: string } = {
+  bash: 'shell',
+  'c++': 'cpp',
+  cs: 'csharp',
+  js: 'javascript',
+  json: 'javascript',
+  jsx: 'javascript',
+  kt: 'kotlin',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  sh: 'shell',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  yml: 'yaml',
+  zsh: 'shell',
+};
+
+const openFence = (nextEmbedded: string) => ({
+  token: 'string.fence',
+  next: '@fencedCode',
+  nextEmbedded,
+});
+
+const tokens: languages.IMonarchLanguage = {
+  defaultToken: '',
+  tokenPostfix: '.md',
+
+  tokenizer: {
+    root: [
+      [/^\s{0,3}#{1,6}(?:[ \t].*)?$/, 'keyword.heading'],
+      [/^\s{0,3}>.*$/, 'comment.quote'],
+      // fences name the language of their code block, e.g. ```js
+      [
+        /^\s{0,3}```\s*([\w+#-]+)[^`]*$/,
+        {
+          cases: {
+            ...Object.fromEntries(
+              Object.entries(fenceAliases).map(([alias, languageId]) => [
+                `$1==${alias}`,
+                openFence(languageId),
+              ])
+            ),
+            '@default': openFence('$1'),
+          },
+        },
+      ],
+      [/^\s{0,3}```.*$/, { token: 'string.fence', next: '@plainCode' }],
+      { include: '@inline' },
+    ],
+
+    inline: [
+      [/\\[\\`*_[\]()#+\-.!]/, ''],
+      [/`[^`]+`/, 'variable.code'],
+      [/(\*\*|__)(?=\S)(?:(?!\1).)+?\1/, 'strong'],
+      [/(\*|_)(?=[^\s*_])(?:(?!\1).)+?\1/, 'emphasis'],
+      [/!?\[[^\]\n]*\]\([^)\n]*\)/, 'string.link'],
+      [/<(?:https?:\/\/|mailto:)[^>\s]+>/, 'string.link'],
+      [/https?:\/\/[^\s<>()]+/, 'string.link'],
+    ],
+
+    fencedCode: [
+      [
+        /^\s{0,3}```\s*$/,
+        { token: 'string.fence', next: '@pop', nextEmbedded: '@pop' },
+      ],
+      [/.*$/, ''],
+    ],
+
+    plainCode: [
+      [/^\s{0,3}```\s*$/, { token: 'string.fence', next: '@pop' }],
+      [/.*$/, 'variable.code'],
+    ],
+  },
+};
+
+/**
+ * Colors for the markdown tokens in each editor theme
+ *
+ * Colors come from the color studio palette.
+ */
+export const markdownThemeRules: Record<
+  'light' | 'dark',
+  Editor.ITokenThemeRule[]
+> = {
+  light: [
+    { token: 'keyword.heading', foreground: '2c3338', fontStyle: 'bold' },
+    { token: 'comment.quote', foreground: '646970', fontStyle: 'italic' },
+    { token: 'string.fence', foreground: '8c8f94' },
+    { token: 'variable.code', foreground: 'b32d2e' },
+    { token: 'strong', fontStyle: 'bold' },
+    { token: 'emphasis', fontStyle: 'italic' },
+    { token: 'string.link', foreground: '1d4fc4', fontStyle: 'underline' },
+  ],
+  dark: [
+    { token: 'keyword.heading', foreground: 'ffffff', fontStyle: 'bold' },
+    { token: 'comment.quote', foreground: 'a7aaad', fontStyle: 'italic' },
+    { token: 'string.fence', foreground: '8c8f94' },
+    { token: 'variable.code', foreground: 'ff8085' },
+    { token: 'strong', fontStyle: 'bold' },
+    { token: 'emphasis', fontStyle: 'italic' },
+    { token: 'string.link', foreground: 'ced9f2', fontStyle: 'underline' },
+  ],
+};
+
+let isRegistered = false;
+
+/**
+ * Teaches Monaco to highlight markdown notes and fold their sections
+ *
+ * Safe to call more than once; the language is only registered the first time.
+ */
+export const registerMarkdownLanguage = () => {
+  if (isRegistered) {
+    return;
+  }
+  isRegistered = true;
+
+  languages.register({ id: markdownLanguageId });
+  languages.setMonarchTokensProvider(markdownLanguageId, tokens);
+  languages.registerFoldingRangeProvider(markdownLanguageId, {
+    provideFoldingRanges: (model) =>
+      headingSections(model.getValue()).map(({ start, end }) => ({
+        start: start + 1,
+        end: end + 1,
+        kind: languages.FoldingRangeKind.Region,
+      })),
+  });
+};
@@ -0,0 +1,167 @@
+import {
+  backlinksTo,
+  findNoteLinks,
+  linkResolver,
+  noteLinkText,
+  withEmbeddedNotes,
+  withMarkdownNoteLinks,
+} from './note-links';
+
+import type * as T from '../types';
+
+const note = (content: string, deleted = false): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: [],
+});
+
+const id = (name: string) => name as T.EntityId;
+
+const notes = new Map([
+  [id('recipes'), note('Recipes\nSee [[Shopping list]]')],
+  [id('shopping'), note('Shopping List\n- eggs')],
+  [id('journal'), note('Journal\nToday I cooked from [[Old title|recipes]]')],
+  [id('trashed'), note('Trashed\n[[Shopping list]]', true)],
+]);
+
+describe('findNoteLinks', () => {
+  it('finds links with and without note ids', () => {
+    expect(findNoteLinks('a [[First]] b [[ Second | abc ]]')).toEqual([
+      { start: 2, end: 11, title: 'First', noteId: null, isEmbed: false },
+      { start: 14, end: 32, title: 'Second', noteId: 'abc', isEmbed: false },
+    ]);
+  });
+
+  it('ignores brackets which are not links', () => {
+    expect(findNoteLinks('[[]] [x] [[a\nb]] [[a|b|c]]')).toEqual([]);
+  });
+});
+
+describe('noteLinkText', () => {
+  it('keeps the link readable when titles contain brackets', () => {
+    expect(noteLinkText(id('abc'), 'Plans [draft] | 2020')).toBe(
+      '[[Plans draft 2020|abc]]'
+    );
+  });
+});
+
+describe('linkResolver', () => {
+  const resolve = linkResolver(notes);
+
+  it('prefers the note id over the title', () => {
+    expect(
+      resolve({
+        start: 0,
+        end: 0,
+        title: 'Journal',
+        noteId: id('recipes'),
+        isEmbed: false,
+      })
+    ).toBe('recipes');
+  });
+
+  it('falls back to the title without regard to case', () => {
+    expect(
+      resolve({
+        start: 0,
+        end: 0,
+        title: 'shopping LIST',
+        noteId: id('gone'),
+        isEmbed: false,
+      })
+    ).toBe('shopping');
+    expect(
+      resolve({
+        start: 0,
+        end: 0,
+        title: 'Trashed',
+        noteId: null,
+        isEmbed: false,
+      })
+    ).toBe(null);
+  });
+});
+
+describe('backlinksTo', () => {
+  it('lists notes which link by title or by id', () => {
+    expect(backlinksTo(id('shopping'), notes)).toEqual(['recipes']);
+    expect(backlinksTo(id('recipes'), notes)).toEqual(['journal']);
+  });
+});
+
+describe('withEmbeddedNotes', () => {
+  it('embeds notes inside of notes', () => {
+    const embedding = new Map([
+      [id('a'), note('A\n![[B]]')],
+      [id('b'), note('B\n![[C]] and ![[Nowhere]]')],
+      [id('c'), note('C')],
+    ]);
+
+    expect(withEmbeddedNotes('A\n![[B]]', embedding, id('a'))).toBe(
+      'A\n\n\nB\n\n\nC\n\n and ![[Nowhere]]\n\n'
+    );
+  });
+
+  it('stops at notes which would embed themselves', () => {
+    const embedding = new Map([
+      [id('a'), note('A\n![[B]]')],
+      [id('b'), note('B\n![[A]]')],
+    ]);
+
+    expect(withEmbeddedNotes('A\n![[B]]', embedding, id('a'))).toBe(
+      'A\n\n\nB\n![[A]]\n\n'
+    );
+  });
+
+  it('leaves the checklist items of embedded notes alone', () => {
+    const embedding = new Map([
+      [id('a'), note('A\n- \ue000 host\n![[B]]\n- \ue001 done')],
+      [id('b'), note('B\n- \ue000 open\n- \ue001 closed\n* [x] typed')],
+    ]);
+
+    const content = withEmbeddedNotes(
+      embedding.get(id('a'))!.content,
+      embedding,
+      id('a')
+    );
+
+    expect(content).toBe(
+      'A\n- \ue000 host\n\n\nB\n- \u2610 open\n- \u2611 closed\n* \u2611 typed\n\n\n- \ue001 done'
+    );
+    expect(content.match(/[\ue000\ue001]/g)).toEqual(['\ue000', '\ue001']);
+  });
+
+  it('stops embedding after a few notes', () => {
+    const embedding = new Map(
+      ['a', 'b', 'c', 'd', 'e'].map((name, index, names) => [
+        id(name),
+        note(`${name.toUpperCase()}\n![[${names[index + 1]}]]`),
+      ])
+    );
+
+    expect(
+      withEmbeddedNotes(embedding.get(id('a'))!.content, embedding, id('a'))
+        .split('\n')
+        .filter((line) => line.length > 0)
+    ).toEqual(['A', 'B', 'C', 'D', '![[e]]']);
+  });
+});
+
+describe('withMarkdownNoteLinks', () => {
+  it('links to notes with their current titles', () => {
+    expect(
+      withMarkdownNoteLinks('[[Old title|recipes]] and [[Nowhere]]', notes)
+    ).toBe('[Recipes](simplenote://note/recipes) and \\[\\[Nowhere\\]\\]');
+  });
+
+  it('links to notes which could not be embedded', () => {
+    expect(withMarkdownNoteLinks('![[Recipes]]', notes)).toBe(
+      '[Recipes](simplenote://note/recipes)'
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { noteTitleAndPreview } from './note-utils';
+
+import type * as T from '../types';
+
+export type NoteLink = {
+  start: number;
+  end: number;
+  title: string;
+  noteId: T.EntityId | null;
+  isEmbed: boolean;
+};
+
+export type LinkResolver = (link: NoteLink) => T.EntityId | null;
+
+// [[Note Title]] or [[Note Title|note-id]], with a leading ! to embed the note
+const linkPattern = /(!?)\[\[([^[\]|\n]+?)(?:\|([^[\]|\n]+))?\]\]/g;
+
+// how many notes deep embedded notes may embed other notes
+export const maxEmbedDepth = 3;
+
+/**
+ * Finds the wiki-style links to other notes in some text
+ *
+ * @param content text to search
+ * @returns links in the order they appear
+ */
+export const findNoteLinks = (content: string): NoteLink[] => {
+  const links: NoteLink[] = [];
+
+  if (!content.includes('[[')) {
+    return links;
+  }
+
+  for (const match of content.matchAll(linkPattern)) {
+    const [fullMatch, embedMark, title, noteId] = match;
+
+    links.push({
+      start: match.index!,
+      end: match.index! + fullMatch.length,
+      title: title.trim(),
+      noteId: noteId ? (noteId.trim() as T.EntityId) : null,
+      isEmbed: '!' === embedMark,
+    });
+  }
+
+  return links;
+};
+
+/**
+ * Writes a link to a note
+ *
+ * The note id makes the link survive changes to the note's title;
+ * the title only keeps the link readable where it's written.
+ *
+ * @param noteId note to link to
+ * @param title title of the note
+ * @returns link text
+ */
+export const noteLinkText = (noteId: T.EntityId, title: string) =>
+  `[[${title.replace(/[[\]|\s]+/g, ' ').trim()}|${noteId}]]`;
+
+/**
+ * Creates a function which finds the note a link points to
+ *
+ * Links with a note id point to that note while it exists;
+ * others point to the first note whose title matches, ignoring case.
+ *
+ * @param notes notes which links can point to
+ * @returns resolver for links among those notes
+ */
+export const linkResolver = (notes: Map<T.EntityId, T.Note>): LinkResolver => {
+  let titles: Map<string, T.EntityId> | null = null;
+
+  return ({ noteId, title }) => {
+    if (noteId && notes.has(noteId) && !notes.get(noteId)!.deleted) {
+      return noteId;
+    }
+
+    if (null === titles) {
+      titles = new Map();
+      for (const [id, note] of notes) {
+        const key = noteTitleAndPreview(note).title.trim().toLowerCase();
+        if (!note.deleted && !titles.has(key)) {
+          titles.set(key, id);
+        }
+      }
+    }
+
+    return titles.get(title.toLowerCase()) ?? null;
+  };
+};
+
+/**
+ * Finds the notes which link to a given note
+ *
+ * @param noteId note which is linked to
+ * @param notes notes which might link to it
+ * @returns ids of the linking notes
+ */
+export const backlinksTo = (
+  noteId: T.EntityId,
+  notes: Map<T.EntityId, T.Note>
+): T.EntityId[] => {
+  const resolve = linkResolver(notes);
+  const linkedFrom: T.EntityId[] = [];
+
+  notes.forEach((note, id) => {
+    if (
+      id !== noteId &&
+      !note.deleted &&
+      findNoteLinks(note.content).some((link) => resolve(link) === noteId)
+    ) {
+      linkedFrom.push(id);
+    }
+  });
+
+  return linkedFrom;
+};
+
+const escapeMarkdown = (text: string) =>
+  text.replace(/[\\`*_[\]<>~|]/g, '\\$&');
+
+// the preview can only check off the items of the note it shows, so
+// embedded items appear as plain boxes rather than as checkboxes
+const withReadOnlyTasks = (text: string) =>
+  text
+    .replace(/[\ue000\ue001]/g, (match) =>
+      '\ue000' === match ? '\u2610' : '\u2611'
+    )
+    .replace(
+      /^(\s*[-+*]\s+)\[([ xX])\]/gm,
+      (match, bullet, mark) => `${bullet}${' ' === mark ? '\u2610' : '\u2611'}`
+    );
+
+/**
+ * Replaces `![[Other Note]]` with the content of the note it points to
+ *
+ * Embedded notes may embed others in turn up to `maxEmbedDepth`
+ * notes deep. Embeds which would place a note inside itself, or go
+ * deeper than that, are left for `withMarkdownNoteLinks` to turn into
+ * plain links, as are embeds which point nowhere. Checklist items
+ * in embedded notes can't be checked from here.
+ *
+ * @param content note content
+ * @param notes notes which can be embedded
+ * @param noteId note whose content this is, if it's a stored note
+ * @returns content with the embedded notes in place
+ */
+export const withEmbeddedNotes = (
+  content: string,
+  notes: Map<T.EntityId, T.Note>,
+  noteId: T.EntityId | null
+): string => {
+  const resolve = linkResolver(notes);
+
+  const embed = (text: string, path: T.EntityId[]): string => {
+    const embeds = findNoteLinks(text).filter(({ isEmbed }) => isEmbed);
+    if (0 === embeds.length || path.length > maxEmbedDepth) {
+      return text;
+    }
+
+    let output = '';
+    let position = 0;
+
+    embeds.forEach((link) => {
+      const embeddedId = resolve(link);
+      if (!embeddedId || path.includes(embeddedId)) {
+        return;
+      }
+
+      output += text.slice(position, link.start);
+      output += `\n\n${withReadOnlyTasks(
+        embed(notes.get(embeddedId)!.content, [...path, embeddedId]).trim()
+      )}\n\n`;
+      position = link.end;
+    });
+
+    return output + text.slice(position);
+  };
+
+  return embed(content, noteId ? [noteId] : []);
+};
+
+/**
+ * Turns wiki-style links into Markdown links the preview can open
+ *
+ * Links show the current title of the note they point to;
+ * links which point nowhere are left as plain text.
+ * Embeds which are still in the content become links too.
+ *
+ * @param content note content
+ * @param notes notes which links can point to
+ * @returns content with Markdown links to `simplenote://note/` URLs
+ */
+export const withMarkdownNoteLinks = (
+  content: string,
+  notes: Map<T.EntityId, T.Note>
+): string => {
+  const links = findNoteLinks(content);
+  if (0 === links.length) {
+    return content;
+  }
+
+  const resolve = linkResolver(notes);
+  let output = '';
+  let position = 0;
+
+  links.forEach((link) => {
+    const noteId = resolve(link);
+    const title = noteId
+      ? noteTitleAndPreview(notes.get(noteId)!).title
+      : link.title;
+
+    output += content.slice(position, link.start);
+    output += noteId
+      ? `[${escapeMarkdown(title)}](simplenote://note/${noteId})`
+      : `\\[\\[${escapeMarkdown(title)}\\]\\]`;
+    position = link.end;
+  });
+
+  return output + content.slice(position);
+};
@@ -0,0 +1,58 @@
+import { fillTemplate, isTemplate, noteFromTemplate } from './note-templates';
+
+import type * as T from '../types';
+
+const note = (content: string, tags: string[]): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted: false,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: ['markdown', 'pinned'],
+  tags: tags as T.TagName[],
+});
+
+const now = new Date(2020, 11, 24, 9, 5);
+
+describe('fillTemplate', () => {
+  it('fills in the placeholders', () => {
+    expect(
+      fillTemplate('# {{title}}\n{{ date }} at {{TIME}} {{unknown}}', {
+        now,
+        title: 'Standup',
+      })
+    ).toEqual({
+      content: '# Standup\n2020-12-24 at 09:05 {{unknown}}',
+      cursorAt: null,
+    });
+  });
+
+  it('finds the cursor and removes extra ones', () => {
+    expect(
+      fillTemplate('{{title}}\n{{cursor}}\n{{cursor}}', { now, title: 'Hi' })
+    ).toEqual({ content: 'Hi\n\n', cursorAt: 3 });
+  });
+});
+
+describe('isTemplate', () => {
+  it('recognizes the template tag in any case', () => {
+    expect(isTemplate(note('', ['work', 'Template']))).toBe(true);
+    expect(isTemplate(note('', ['templates']))).toBe(false);
+  });
+});
+
+describe('noteFromTemplate', () => {
+  it('copies tags and Markdown but not the template tag', () => {
+    const template = note('Todo\n- [ ] {{cursor}}', ['template', 'work']);
+
+    expect(noteFromTemplate(template, { now, title: '' })).toEqual({
+      note: {
+        content: 'Todo\n- [ ] ',
+        systemTags: ['markdown'],
+        tags: ['work'],
+      },
+      cursorAt: 7,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import format from 'date-fns/format';
+
+import { tagHashOf as t } from './tag-hash';
+import { withCheckboxCharacters } from './task-transform';
+
+import type * as T from '../types';
+
+// notes with this tag show up in the "New from template…" picker
+export const templateTagName = 'template' as T.TagName;
+
+type TemplateValues = {
+  now: Date;
+  title: string;
+};
+
+type FilledTemplate = {
+  content: string;
+  cursorAt: number | null;
+};
+
+const placeholderPattern = /{{\s*(cursor|date|time|title)\s*}}/gi;
+
+/**
+ * Indicates if a note can be used as a template
+ *
+ * @param note note to check
+ * @returns whether the note is a template
+ */
+export const isTemplate = (note: T.Note): boolean =>
+  !note.deleted && note.tags.some((tag) => t(tag) === t(templateTagName));
+
+/**
+ * Fills in the placeholders in a template's content
+ *
+ * `{{cursor}}` marks where editing starts in the new note;
+ * only the first one counts and the rest are removed.
+ *
+ * @param content template content
+ * @param values values for the placeholders
+ * @returns content for the new note and where to place the cursor, if anywhere
+ */
+export const fillTemplate = (
+  content: string,
+  { now, title }: TemplateValues
+): FilledTemplate => {
+  const values: { [name: string]: string } = {
+    date: format(now, 'yyyy-MM-dd'),
+    time: format(now, 'HH:mm'),
+    title,
+  };
+
+  let output = '';
+  let position = 0;
+  let cursorAt: number | null = null;
+
+  for (const match of content.matchAll(placeholderPattern)) {
+    const name = match[1].toLowerCase();
+
+    output += content.slice(position, match.index);
+    if ('cursor' === name) {
+      cursorAt = cursorAt ?? output.length;
+    } else {
+      output += values[name];
+    }
+    position = match.index! + match[0].length;
+  }
+
+  return { content: output + content.slice(position), cursorAt };
+};
+
+/**
+ * Builds a new note from a template
+ *
+ * The new note keeps the template's tags, except for the one
+ * marking it as a template, and whether it uses Markdown.
+ *
+ * @param template note to copy
+ * @param values values for the placeholders
+ * @returns new note and where to place the cursor in the editor, if anywhere
+ */
+export const noteFromTemplate = (
+  template: T.Note,
+  values: TemplateValues
+): { note: Partial<T.Note>; cursorAt: number | null } => {
+  const { content, cursorAt } = fillTemplate(template.content, values);
+
+  return {
+    note: {
+      content,
+      systemTags: template.systemTags.filter((tag) => 'markdown' === tag),
+      tags: template.tags.filter((tag) => t(tag) !== t(templateTagName)),
+    },
+    // the editor shows checklist items as single characters
+    cursorAt:
+      null !== cursorAt
+        ? withCheckboxCharacters(content.slice(0, cursorAt)).length
+        : null,
+  };
+};
@@ -1,8 +1,11 @@
 import noteTitleAndPreview, {
   maxTitleChars,
   maxPreviewChars,
+  noteSnippet,
 } from './note-utils';
 
+import * as T from '../types';
+
 describe('noteTitleAndPreview', () => {
   let note;
 
@@ -54,3 +57,49 @@ describe('noteTitleAndPreview', () => {
     expect((s * 1000 + ns / 1000 / 1000) / count).toBeLessThan(1);
   });
 });
+
+describe('noteSnippet', () => {
+  const noteWith = (content: string, systemTags: T.SystemTag[] = []) =>
+    ({ content, systemTags } as T.Note);
+  const farDown = ['Title', 'one', 'two', 'three', 'four', 'five'];
+  const id = 'note' as T.EntityId;
+
+  it('should leave the preview alone when it shows the match', () => {
+    const note = noteWith('Title\nthe first line\nsecond');
+    expect(noteSnippet(id, note, ['first'], 'comfy')).toBeNull();
+    expect(noteSnippet(id, note, ['second'], 'expanded')).toBeNull();
+    expect(noteSnippet(id, note, ['title'], 'condensed')).toBeNull();
+  });
+
+  it('should start with the first matching line', () => {
+    const note = noteWith([...farDown, 'after'].join('\n'));
+    expect(noteSnippet(id, note, ['fiv'], 'expanded')).toBe('five\nafter');
+    expect(noteSnippet(id, note, ['fiv'], 'comfy')).toBe('five');
+    expect(noteSnippet(id, note, ['two'], 'comfy')).toBe('two');
+    expect(noteSnippet(id, note, ['nothing'], 'comfy')).toBeNull();
+  });
+
+  it('should follow edits to the note', () => {
+    const note = noteWith(farDown.join('\n'));
+    expect(noteSnippet(id, note, ['fiv'], 'comfy')).toBe('five');
+
+    const edited = noteWith([...farDown.slice(0, -1), 'fivefold'].join('\n'));
+    expect(noteSnippet(id, edited, ['fiv'], 'comfy')).toBe('fivefold');
+  });
+
+  it('should cut long lines to just before the match', () => {
+    const note = noteWith(
+      `Title\n${'word '.repeat(50)}and then the café is here`
+    );
+    expect(noteSnippet(id, note, ['cafe'], 'comfy')).toBe(
+      '…word word word and then the café is here'
+    );
+  });
+
+  it('should strip markdown from markdown notes', () => {
+    const note = noteWith([...farDown, '## A *big* heading'].join('\n'), [
+      'markdown',
+    ]);
+    expect(noteSnippet(id, note, ['big'], 'comfy')).toBe('A big heading');
+  });
+});
@@ -1,5 +1,7 @@
 import removeMarkdown from 'remove-markdown';
 
+import { findMatches } from '../search/fold-text';
+
 import * as T from '../types';
 
 export interface TitleAndPreview {
@@ -100,6 +102,97 @@ export const noteTitleAndPreview = (note: T.Note): TitleAndPreview => {
   return result;
 };
 
+// how much of the line before a match to keep in a snippet
+const snippetLeadChars = 30;
+
+// the note list asks again on every render, for the same notes and terms,
+// so this keeps the latest snippet of each note along with what it's for
+const snippetCache = new Map<T.EntityId, [string, string, string | null]>();
+
+/**
+ * Generate a snippet for the note list around the first search match
+ *
+ * The normal preview only shows the start of a note, so when the
+ * first match is further down than that this picks out the lines
+ * starting with it instead, cut so that the match is near the start.
+ *
+ * @param noteId id of the note which matched a search
+ * @param note note which matched a search
+ * @param terms text terms of the search
+ * @param displayMode how much of each note the note list shows
+ * @returns snippet or null if the preview already shows the match
+ */
+export const noteSnippet = (
+  noteId: T.EntityId,
+  note: T.Note,
+  terms: string[],
+  displayMode: T.ListDisplayMode
+): string | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const stripMarkdown = isMarkdown(note);
+  const cacheKey = [stripMarkdown, displayMode, ...terms].join('\n');
+  const cached = snippetCache.get(noteId);
+  if (cached && cached[0] === note.content && cached[1] === cacheKey) {
+    return cached[2];
+  }
+
+  const snippet = findSnippet(note.content, terms, displayMode, stripMarkdown);
+  snippetCache.set(noteId, [note.content, cacheKey, snippet]);
+
+  return snippet;
+};
+
+const findSnippet = (
+  content: string,
+  terms: string[],
+  displayMode: T.ListDisplayMode,
+  stripMarkdown: boolean
+): string | null => {
+  const lines = (content || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  // the title is shown either way
+  const bodyLines = lines.slice(1);
+  let matchStart = -1;
+  const matchAt = bodyLines.findIndex((line) => {
+    const [firstMatch] = findMatches(line, terms);
+    matchStart = firstMatch?.[0] ?? -1;
+    return matchStart !== -1;
+  });
+  if (matchAt === -1) {
+    return null;
+  }
+
+  const previewLines =
+    'expanded' === displayMode ? 4 : 'comfy' === displayMode ? 1 : 0;
+  const snippetLines = 'expanded' === displayMode ? 4 : 1;
+
+  if (matchAt < previewLines && matchStart < maxPreviewChars / 2) {
+    return null;
+  }
+
+  const leadStart = Math.max(0, matchStart - snippetLeadChars);
+  const wordStart =
+    leadStart > 0 ? bodyLines[matchAt].indexOf(' ', leadStart) + 1 : 0;
+  const cutAt =
+    wordStart > 0 && wordStart <= matchStart ? wordStart : leadStart;
+
+  return bodyLines
+    .slice(matchAt, matchAt + snippetLines)
+    .map((line, index) =>
+      0 === index && cutAt > 0
+        ? '…' + formatPreview(stripMarkdown, line.slice(cutAt))
+        : formatPreview(stripMarkdown, line)
+    )
+    .join('\n')
+    .slice(0, maxPreviewChars);
+};
+
 function isMarkdown(note: T.Note): boolean {
   return note.systemTags.includes('markdown');
 }
@@ -0,0 +1,60 @@
+import {
+  isTagOrDescendant,
+  renamedTagHash,
+  tagHashOf,
+  tagPathOf,
+} from './tag-hash';
+
+import type * as T from '../types';
+
+const name = (tagName: string) => tagName as T.TagName;
+const hash = (tagName: string) => tagHashOf(name(tagName));
+
+describe('tagPathOf', () => {
+  it('splits nested tag names into their levels', () => {
+    expect(tagPathOf(name('work'))).toEqual(['work']);
+    expect(tagPathOf(name('work/clientA/2020'))).toEqual([
+      'work',
+      'clientA',
+      '2020',
+    ]);
+  });
+
+  it('leaves names with empty levels alone', () => {
+    expect(tagPathOf(name('/work'))).toEqual(['/work']);
+    expect(tagPathOf(name('work//a'))).toEqual(['work//a']);
+    expect(tagPathOf(name('work/'))).toEqual(['work/']);
+  });
+});
+
+describe('isTagOrDescendant', () => {
+  it('matches the tag itself and anything nested beneath it', () => {
+    expect(isTagOrDescendant(hash('Work'), hash('work'))).toBe(true);
+    expect(isTagOrDescendant(hash('work/clientA'), hash('work'))).toBe(true);
+    expect(isTagOrDescendant(hash('work/a/b'), hash('work/A'))).toBe(true);
+  });
+
+  it('does not match siblings, ancestors, or similar names', () => {
+    expect(isTagOrDescendant(hash('workshop'), hash('work'))).toBe(false);
+    expect(isTagOrDescendant(hash('work'), hash('work/clientA'))).toBe(false);
+    expect(isTagOrDescendant(hash('home/work'), hash('work'))).toBe(false);
+  });
+});
+
+describe('renamedTagHash', () => {
+  it('moves the renamed tag and anything nested beneath it', () => {
+    const rename = (tagName: string) =>
+      renamedTagHash(hash(tagName), name('Work'), name('jobs/Current'));
+
+    expect(rename('work')).toBe(hash('jobs/current'));
+    expect(rename('work/clientA/2020')).toBe(hash('jobs/current/clientA/2020'));
+  });
+
+  it('leaves other tags where they are', () => {
+    const rename = (tagName: string) =>
+      renamedTagHash(hash(tagName), name('work'), name('jobs'));
+
+    expect(rename('workshop')).toBe(hash('workshop'));
+    expect(rename('home/work')).toBe(hash('home/work'));
+  });
+});
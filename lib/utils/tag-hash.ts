@@ -31,3 +31,54 @@ export const withoutTag = (tags: T.TagName[], tag: T.TagName): T.TagName[] => {
 
   return tags;
 };
+
+/**
+ * Splits a tag name into the names of its nested levels
+ *
+ * Nested tags are ordinary tags with `/` in their names, which keeps
+ * them readable for clients which don't know about nesting. Names with
+ * empty levels such as `a//b` or `/a` aren't treated as nested.
+ *
+ * @param tagName full tag name, e.g. `work/clientA`
+ * @returns names of each level, e.g. ['work', 'clientA']
+ */
+export const tagPathOf = (tagName: T.TagName): string[] => {
+  const path = tagName.split('/');
+
+  return path.every((level) => level.length > 0) ? path : [tagName];
+};
+
+/**
+ * Indicates if a tag is the given tag or nested anywhere beneath it
+ *
+ * @param tagHash hash of the tag to check
+ * @param ancestorHash hash of the possible ancestor, e.g. of `work`
+ * @returns whether the tag is the ancestor or one of its descendants
+ */
+export const isTagOrDescendant = (
+  tagHash: T.TagHash,
+  ancestorHash: T.TagHash
+): boolean =>
+  tagHash === ancestorHash || tagHash.startsWith(`${ancestorHash}%2F`);
+
+/**
+ * Finds where a tag ends up when it or one of its ancestors is renamed
+ *
+ * @param tagHash hash of the tag which might move, e.g. of `work/clientA`
+ * @param oldTagName name of the renamed tag, e.g. `work`
+ * @param newTagName name it was renamed to, e.g. `jobs`
+ * @returns hash of the tag after the rename, e.g. of `jobs/clientA`
+ */
+export const renamedTagHash = (
+  tagHash: T.TagHash,
+  oldTagName: T.TagName,
+  newTagName: T.TagName
+): T.TagHash => {
+  const oldHash = tagHashOf(oldTagName);
+  if (!isTagOrDescendant(tagHash, oldHash)) {
+    return tagHash;
+  }
+
+  const nestedPart = tagNameOf(tagHash.slice(oldHash.length) as T.TagHash);
+  return tagHashOf(`${newTagName}${nestedPart}` as T.TagName);
+};
@@ -0,0 +1,91 @@
+import { ruleActions, ruleMatches } from './tag-rules';
+
+import type * as T from '../types';
+
+const note = (content: string, extra: Partial<T.Note> = {}): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted: false,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: [],
+  ...extra,
+});
+
+const rule = (extra: Partial<T.TagRule>): T.TagRule => ({
+  action: 'add-tag',
+  condition: 'contains',
+  tagName: 'invoices' as T.TagName,
+  text: '#invoice',
+  ...extra,
+});
+
+const noteId = 'note' as T.EntityId;
+
+describe('ruleMatches', () => {
+  it('finds text regardless of case', () => {
+    expect(ruleMatches(rule({}), 'Paid #Invoice 42')).toBe(true);
+    expect(ruleMatches(rule({}), 'Paid invoice 42')).toBe(false);
+  });
+
+  it('matches patterns as they were written', () => {
+    const todo = rule({ condition: 'matches', text: '^TODO:' });
+
+    expect(ruleMatches(todo, 'notes\nTODO: call')).toBe(false);
+    expect(ruleMatches(todo, 'TODO: call')).toBe(true);
+    expect(ruleMatches(todo, 'todo: call')).toBe(false);
+  });
+
+  it('never applies invalid or empty patterns', () => {
+    expect(ruleMatches(rule({ condition: 'matches', text: '(' }), '(')).toBe(
+      false
+    );
+    expect(ruleMatches(rule({ condition: 'matches', text: 'a*' }), 'a')).toBe(
+      false
+    );
+    expect(ruleMatches(rule({ text: '' }), 'anything')).toBe(false);
+  });
+});
+
+describe('ruleActions', () => {
+  it('only returns changes the note needs', () => {
+    const rules = [
+      rule({}),
+      rule({ action: 'pin' }),
+      rule({ action: 'remove-tag', tagName: 'inbox' as T.TagName }),
+    ];
+
+    expect(
+      ruleActions(
+        rules,
+        noteId,
+        note('#invoice', { tags: ['Inbox' as T.TagName] })
+      )
+    ).toEqual([
+      { type: 'ADD_NOTE_TAG', noteId, tagName: 'invoices' },
+      { type: 'PIN_NOTE', noteId, shouldPin: true },
+      { type: 'REMOVE_NOTE_TAG', noteId, tagName: 'inbox' },
+    ]);
+    expect(
+      ruleActions(
+        rules,
+        noteId,
+        note('#invoice', {
+          systemTags: ['pinned'],
+          tags: ['Invoices' as T.TagName],
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('lets later rules undo earlier ones', () => {
+    const rules = [rule({}), rule({ action: 'remove-tag' })];
+
+    expect(ruleActions(rules, noteId, note('#invoice'))).toEqual([
+      { type: 'ADD_NOTE_TAG', noteId, tagName: 'invoices' },
+      { type: 'REMOVE_NOTE_TAG', noteId, tagName: 'invoices' },
+    ]);
+  });
+});
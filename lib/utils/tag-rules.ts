@@ -0,0 +1,69 @@
+import { findPattern } from './find-replace';
+import { tagHashOf as t } from './tag-hash';
+
+import type * as A from '../state/action-types';
+import type * as T from '../types';
+
+type RuleAction = A.AddNoteTag | A.PinNote | A.RemoveNoteTag;
+
+/**
+ * Indicates if a note's content meets the condition of a rule
+ *
+ * Text is found regardless of case; patterns are regular
+ * expressions which match as they were written.
+ *
+ * @param rule rule to check
+ * @param content note content
+ * @returns whether the rule applies, which it never does for invalid patterns
+ */
+export const ruleMatches = (
+  { condition, text }: T.TagRule,
+  content: string
+): boolean => {
+  const pattern = findPattern(text, {
+    isCaseSensitive: 'matches' === condition,
+    isRegExp: 'matches' === condition,
+  });
+
+  return null !== pattern && -1 !== content.search(pattern);
+};
+
+/**
+ * Works out which changes the rules make to a note
+ *
+ * Rules apply in order, so a later rule can undo what an earlier one
+ * did; only changes which leave the note different are returned.
+ *
+ * @param rules rules to apply
+ * @param noteId note the rules apply to
+ * @param note note as it is now
+ * @returns actions which bring the note in line with the rules
+ */
+export const ruleActions = (
+  rules: T.TagRule[],
+  noteId: T.EntityId,
+  note: T.Note
+): RuleAction[] => {
+  const tags = new Set(note.tags.map(t));
+  let isPinned = note.systemTags.includes('pinned');
+  const actions: RuleAction[] = [];
+
+  rules
+    .filter((rule) => ruleMatches(rule, note.content))
+    .forEach(({ action, tagName }) => {
+      const tagHash = t(tagName);
+
+      if ('pin' === action && !isPinned) {
+        isPinned = true;
+        actions.push({ type: 'PIN_NOTE', noteId, shouldPin: true });
+      } else if ('add-tag' === action && tagName && !tags.has(tagHash)) {
+        tags.add(tagHash);
+        actions.push({ type: 'ADD_NOTE_TAG', noteId, tagName });
+      } else if ('remove-tag' === action && tags.has(tagHash)) {
+        tags.delete(tagHash);
+        actions.push({ type: 'REMOVE_NOTE_TAG', noteId, tagName });
+      }
+    });
+
+  return actions;
+};
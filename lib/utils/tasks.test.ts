@@ -0,0 +1,158 @@
+import {
+  allTasks,
+  findDueDate,
+  moveDoneTasksDown,
+  noteTasks,
+  setAllTasksDone,
+  setTaskDone,
+  setTaskDue,
+  taskProgress,
+} from './tasks';
+
+import type * as T from '../types';
+
+const note = (content: string, deleted = false): T.Note => ({
+  content,
+  creationDate: 1,
+  deleted,
+  modificationDate: 1,
+  publishURL: '',
+  shareURL: '',
+  systemTags: [],
+  tags: [],
+});
+
+const id = (name: string) => name as T.EntityId;
+
+const content =
+  'Standup\n- [ ] Write notes\n  - [X] Review PR \n- [] not a task';
+
+describe('noteTasks', () => {
+  it('finds open and done items with their lines', () => {
+    expect(noteTasks(id('a'), content)).toEqual([
+      { noteId: 'a', line: 1, text: 'Write notes', isDone: false, due: null },
+      { noteId: 'a', line: 2, text: 'Review PR', isDone: true, due: null },
+    ]);
+  });
+});
+
+describe('findDueDate', () => {
+  it('reads dates with and without a time', () => {
+    expect(findDueDate('send report @due(2026-11-01 17:30)')).toEqual({
+      start: 12,
+      end: 34,
+      due: new Date(2026, 10, 1, 17, 30),
+    });
+    expect(findDueDate('send report @due(2026-11-01)')?.due).toEqual(
+      new Date(2026, 10, 1, 9, 0)
+    );
+  });
+
+  it('ignores dates it cannot read', () => {
+    expect(findDueDate('send report @due(next week)')).toBe(null);
+    expect(findDueDate('send report @due(2026-13-01)')).toBe(null);
+  });
+});
+
+describe('allTasks', () => {
+  it('skips trashed notes and notes without items', () => {
+    const tasks = allTasks(
+      new Map([
+        [id('a'), note(content)],
+        [id('b'), note('Nothing to do')],
+        [id('c'), note(content, true)],
+      ])
+    );
+
+    expect([...tasks.keys()]).toEqual(['a']);
+  });
+});
+
+describe('setTaskDone', () => {
+  it('checks and unchecks items in place', () => {
+    expect(setTaskDone(content, 1, true)).toBe(
+      'Standup\n- [x] Write notes\n  - [X] Review PR \n- [] not a task'
+    );
+    expect(setTaskDone(content, 2, false)).toBe(
+      'Standup\n- [ ] Write notes\n  - [ ] Review PR \n- [] not a task'
+    );
+  });
+
+  it('leaves lines without items alone', () => {
+    expect(setTaskDone(content, 3, true)).toBe(content);
+    expect(setTaskDone(content, 10, true)).toBe(content);
+  });
+});
+
+describe('setTaskDue', () => {
+  const dueContent = '- [ ] send report @due(2026-11-01) today\n- [ ] call';
+
+  it('takes the due date out of the item text', () => {
+    expect(noteTasks(id('a'), dueContent)[0]).toEqual({
+      noteId: 'a',
+      line: 0,
+      text: 'send report today',
+      isDone: false,
+      due: new Date(2026, 10, 1, 9, 0),
+    });
+  });
+
+  it('only moves existing due dates', () => {
+    const later = new Date(2026, 10, 1, 10, 15);
+
+    expect(setTaskDue(dueContent, 0, later)).toBe(
+      '- [ ] send report @due(2026-11-01 10:15) today\n- [ ] call'
+    );
+    expect(setTaskDue(dueContent, 1, later)).toBe(dueContent);
+  });
+});
+
+describe('taskProgress', () => {
+  it('counts checked and unchecked items', () => {
+    expect(taskProgress(content)).toEqual({ done: 1, total: 2 });
+    expect(taskProgress('Nothing to do')).toEqual({ done: 0, total: 0 });
+  });
+});
+
+describe('setAllTasksDone', () => {
+  it('changes every item at once', () => {
+    expect(setAllTasksDone(content, true)).toBe(
+      'Standup\n- [x] Write notes\n  - [x] Review PR \n- [] not a task'
+    );
+    expect(taskProgress(setAllTasksDone(content, false)).done).toBe(0);
+  });
+});
+
+describe('moveDoneTasksDown', () => {
+  it('sorts each checklist on its own', () => {
+    expect(
+      moveDoneTasksDown(
+        ['- [x] a', '- [ ] b', '', '- [x] c', '- [ ] d', '- [ ] e'].join('\n')
+      )
+    ).toBe(
+      ['- [ ] b', '- [x] a', '', '- [ ] d', '- [ ] e', '- [x] c'].join('\n')
+    );
+  });
+
+  it('keeps nested items with their parents', () => {
+    expect(
+      moveDoneTasksDown(
+        [
+          '- [x] trip',
+          '  - [x] tickets',
+          '  - [ ] hotel',
+          '- [ ] groceries',
+          'Notes',
+        ].join('\n')
+      )
+    ).toBe(
+      [
+        '- [ ] groceries',
+        '- [x] trip',
+        '  - [ ] hotel',
+        '  - [x] tickets',
+        'Notes',
+      ].join('\n')
+    );
+  });
+});
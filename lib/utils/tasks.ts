@@ -0,0 +1,258 @@
+import format from 'date-fns/format';
+import isValid from 'date-fns/isValid';
+import parse from 'date-fns/parse';
+
+import type * as T from '../types';
+
+export type DueAnnotation = {
+  start: number;
+  end: number;
+  due: Date;
+};
+
+// same checklist syntax as `withCheckboxCharacters` in task-transform.ts
+const taskPattern = /^(\s*(?:[-+*•]\s)?)- \[( |x|X)\](\s)(.*)$/;
+const duePattern = /@due\(([^()\n]*)\)/;
+
+export const dueFormat = 'yyyy-MM-dd HH:mm';
+
+// accepted along with `dueFormat` when reading due dates
+const dueDateFormats = [dueFormat, "yyyy-MM-dd'T'HH:mm"];
+
+// due dates without a time are for the start of the working day
+const defaultDueTime = '09:00';
+
+/**
+ * Finds the due date annotation in a line of text
+ *
+ * Due dates look like `@due(2020-12-24 17:30)` or `@due(2020-12-24)`
+ *
+ * @param text line to look in
+ * @returns where the annotation is and when it's due, if it's valid
+ */
+export const findDueDate = (text: string): DueAnnotation | null => {
+  const match = duePattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const value = match[1].trim();
+  const dateTime = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value} ${defaultDueTime}`
+    : value;
+
+  for (const dueDateFormat of dueDateFormats) {
+    const due = parse(dateTime, dueDateFormat, new Date());
+    if (isValid(due)) {
+      return { start: match.index, end: match.index + match[0].length, due };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Finds the checklist items in a note
+ *
+ * @param noteId note the content comes from
+ * @param content note content
+ * @returns checklist items in the order they appear
+ */
+export const noteTasks = (noteId: T.EntityId, content: string): T.Task[] => {
+  if (!content.includes('- [')) {
+    return [];
+  }
+
+  const tasks: T.Task[] = [];
+  content.split('\n').forEach((lineText, line) => {
+    const match = taskPattern.exec(lineText);
+    if (match) {
+      const text = match[4];
+      const dueDate = findDueDate(text);
+
+      tasks.push({
+        noteId,
+        line,
+        text: (dueDate
+          ? text.slice(0, dueDate.start) + text.slice(dueDate.end)
+          : text
+        )
+          .replace(/\s+/g, ' ')
+          .trim(),
+        isDone: ' ' !== match[2],
+        due: dueDate?.due ?? null,
+      });
+    }
+  });
+
+  return tasks;
+};
+
+/**
+ * Collects the checklist items of every note not in the trash
+ *
+ * @param notes notes to look through
+ * @returns checklist items of each note which has any
+ */
+export const allTasks = (
+  notes: Map<T.EntityId, T.Note>
+): Map<T.EntityId, T.Task[]> => {
+  const tasks = new Map<T.EntityId, T.Task[]>();
+
+  notes.forEach((note, noteId) => {
+    const found = note.deleted ? [] : noteTasks(noteId, note.content);
+    if (found.length > 0) {
+      tasks.set(noteId, found);
+    }
+  });
+
+  return tasks;
+};
+
+/**
+ * Checks or unchecks a checklist item in a note's content
+ *
+ * @param content note content
+ * @param line line the item is on
+ * @param isDone whether the item should be checked
+ * @returns updated content, or the same content if there's no item on that line
+ */
+export const setTaskDone = (
+  content: string,
+  line: number,
+  isDone: boolean
+): string => {
+  const lines = content.split('\n');
+  const match = taskPattern.exec(lines[line] ?? '');
+  if (!match) {
+    return content;
+  }
+
+  const [, prefix, , space, text] = match;
+  lines[line] = `${prefix}- [${isDone ? 'x' : ' '}]${space}${text}`;
+
+  return lines.join('\n');
+};
+
+/**
+ * Moves the due date of a checklist item in a note's content
+ *
+ * @param content note content
+ * @param line line the item is on
+ * @param due when the item is now due
+ * @returns updated content, or the same content if there's no due item on that line
+ */
+export const setTaskDue = (
+  content: string,
+  line: number,
+  due: Date
+): string => {
+  const lines = content.split('\n');
+  const lineText = lines[line] ?? '';
+  if (!taskPattern.test(lineText) || !duePattern.test(lineText)) {
+    return content;
+  }
+
+  lines[line] = lineText.replace(duePattern, `@due(${format(due, dueFormat)})`);
+
+  return lines.join('\n');
+};
+
+/**
+ * Counts the checklist items in a note's content
+ *
+ * @param content note content
+ * @returns how many items are checked and how many there are
+ */
+export const taskProgress = (
+  content: string
+): { done: number; total: number } => {
+  let done = 0;
+  let total = 0;
+
+  if (content.includes('- [')) {
+    content.split('\n').forEach((lineText) => {
+      const match = taskPattern.exec(lineText);
+      if (match) {
+        total++;
+        done += ' ' !== match[2] ? 1 : 0;
+      }
+    });
+  }
+
+  return { done, total };
+};
+
+/**
+ * Checks or unchecks every checklist item in a note's content
+ *
+ * @param content note content
+ * @param isDone whether the items should be checked
+ * @returns updated content
+ */
+export const setAllTasksDone = (content: string, isDone: boolean): string =>
+  content
+    .split('\n')
+    .map((lineText) => setTaskDone(lineText, 0, isDone))
+    .join('\n');
+
+const indentOf = (lineText: string) => /^\s*/.exec(lineText)![0].length;
+
+const doneLast = (lines: string[]): string[] => {
+  const indent = indentOf(lines[0]);
+  const items: string[][] = [];
+
+  // nested items belong to the item above them and move along with it
+  lines.forEach((lineText) => {
+    if (0 === items.length || indentOf(lineText) <= indent) {
+      items.push([lineText]);
+    } else {
+      items[items.length - 1].push(lineText);
+    }
+  });
+
+  const sorted = items.map(([item, ...nested]) =>
+    nested.length > 0 ? [item, ...doneLast(nested)] : [item]
+  );
+  const isDone = ([item]: string[]) => ' ' !== taskPattern.exec(item)![2];
+
+  return [
+    ...sorted.filter((item) => !isDone(item)),
+    ...sorted.filter(isDone),
+  ].flat();
+};
+
+/**
+ * Moves checked items below the unchecked ones in each checklist
+ *
+ * Checklists are runs of consecutive checklist lines; nested
+ * items are sorted within their parent and move along with it.
+ *
+ * @param content note content
+ * @returns updated content
+ */
+export const moveDoneTasksDown = (content: string): string => {
+  const lines = content.split('\n');
+  const sorted: string[] = [];
+  let checklist: string[] = [];
+
+  lines.forEach((lineText, index) => {
+    const isTask = taskPattern.test(lineText);
+    if (isTask) {
+      checklist.push(lineText);
+    }
+
+    if (!isTask || index === lines.length - 1) {
+      if (checklist.length > 0) {
+        sorted.push(...doneLast(checklist));
+        checklist = [];
+      }
+    }
+
+    if (!isTask) {
+      sorted.push(lineText);
+    }
+  });
+
+  return sorted.join('\n');
+};
@@ -90,14 +90,30 @@ module.exports = () => {
         chunkFilename: isDevMode ? '[id].css' : '[id].[hash].css',
       }),
       new MonacoWebpackPlugin({
-        languages: [],
+        // highlighting for code blocks in markdown notes
+        languages: [
+          'cpp',
+          'csharp',
+          'go',
+          'java',
+          'javascript',
+          'kotlin',
+          'php',
+          'python',
+          'ruby',
+          'rust',
+          'shell',
+          'sql',
+          'swift',
+          'xml',
+          'yaml',
+        ],
         features: [
           '!bracketMatching',
           '!codeAction',
           '!codelens',
           '!colorDetector',
           '!comment',
-          '!folding',
           '!gotoError',
           '!gotoLine',
           '!gotoSymbol',
@@ -110,7 +126,6 @@ module.exports = () => {
           '!referenceSearch',
           '!rename',
           '!snippets',
-          '!suggest',
           '!toggleHighContrast',
         ],
       }),